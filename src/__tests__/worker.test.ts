@@ -0,0 +1,87 @@
+import { DeploymentQueueService } from '../services/DeploymentQueueService';
+import { DeploymentService } from '../services/DeploymentService';
+import { DeploymentJob } from '../types';
+import { runJob } from '../worker';
+
+jest.mock('../database', () => ({ query: jest.fn(), closePool: jest.fn() }));
+jest.mock('../database/migrations', () => ({ runMigrations: jest.fn() }));
+jest.mock('../services/CertificateService', () => ({ CertificateService: {} }));
+jest.mock('../services/DeploymentQueueService', () => ({
+  DeploymentQueueService: {
+    heartbeat: jest.fn(),
+    complete: jest.fn(),
+    fail: jest.fn(),
+    release: jest.fn(),
+  },
+}));
+jest.mock('../services/DeploymentService', () => ({
+  DeploymentService: { runQueuedDeployment: jest.fn(), markDeploymentRetrying: jest.fn() },
+}));
+
+const queue = jest.mocked(DeploymentQueueService);
+const deployments = jest.mocked(DeploymentService);
+
+const job = {
+  id: 'job-1',
+  deploymentId: 'deployment-1',
+  attempts: 1,
+  maxAttempts: 3,
+} as DeploymentJob;
+
+describe('worker runJob', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    queue.release.mockResolvedValue(true);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('completes the job when the deployment runs', async () => {
+    await runJob(job);
+
+    expect(deployments.runQueuedDeployment).toHaveBeenCalledWith('deployment-1');
+    expect(queue.complete).toHaveBeenCalledWith('job-1', expect.any(String));
+    expect(queue.fail).not.toHaveBeenCalled();
+  });
+
+  it('puts the deployment back to pending when the failed job will be retried', async () => {
+    deployments.runQueuedDeployment.mockRejectedValue(new Error('build failed'));
+    queue.fail.mockResolvedValue({ willRetry: true, attempts: 1, maxAttempts: 3 });
+
+    await runJob(job);
+
+    expect(queue.fail).toHaveBeenCalledWith('job-1', expect.any(String), 'build failed');
+    expect(deployments.markDeploymentRetrying).toHaveBeenCalledWith('deployment-1', 1, 3);
+    expect(queue.complete).not.toHaveBeenCalled();
+  });
+
+  it('leaves the deployment failed after the last attempt', async () => {
+    deployments.runQueuedDeployment.mockRejectedValue(new Error('build failed'));
+    queue.fail.mockResolvedValue({ willRetry: false, attempts: 3, maxAttempts: 3 });
+
+    await runJob(job);
+
+    expect(deployments.markDeploymentRetrying).not.toHaveBeenCalled();
+  });
+
+  it('releases the job when its outcome cannot be recorded', async () => {
+    queue.complete.mockRejectedValue(new Error('connection lost'));
+
+    await expect(runJob(job)).resolves.toBeUndefined();
+
+    expect(queue.release).toHaveBeenCalledWith('job-1', expect.any(String));
+  });
+
+  it('never rejects, even when releasing fails too', async () => {
+    deployments.runQueuedDeployment.mockRejectedValue(new Error('build failed'));
+    queue.fail.mockRejectedValue(new Error('connection lost'));
+    queue.release.mockRejectedValue(new Error('connection lost'));
+
+    await expect(runJob(job)).resolves.toBeUndefined();
+  });
+});
@@ -5,14 +5,17 @@ import config from './config';
 import { errorHandler, sendSuccess, sendError } from './utils/error';
 import { requestLogger, requestIdMiddleware } from './middleware/logging';
 import { HTTP_STATUS } from './constants';
-import { NginxConfigService } from './services/NginxConfigService';
+import { ProxyService } from './services/ProxyService';
 
 // Import route handlers
 import authRoutes from './routes/auth';
 import projectRoutes from './routes/projects';
-import environmentRoutes from './routes/environments';
+import environmentRoutes, { projectEnvironmentRoutes } from './routes/environments';
 import deploymentRoutes from './routes/deployments';
 import webhookRoutes from './routes/webhooks';
+import acmeRoutes from './routes/acme';
+import adminRoutes from './routes/admin';
+import variableGroupRoutes from './routes/variableGroups';
 
 /**
  * Create and configure Express application
@@ -72,10 +75,10 @@ export function createApp(): Express {
     sendSuccess(res, { version: '1.0.0' }, 'API version');
   });
 
-  // Public endpoint: Active deployments (for nginx config generation)
+  // Public endpoint: Active deployments (for proxy config generation)
   app.get('/api/deployments/active', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const deployments = await NginxConfigService.getActiveDeployments();
+      const deployments = await ProxyService.getActiveRoutes();
       sendSuccess(res, {
         deployments,
         total: deployments.length,
@@ -89,13 +92,19 @@ export function createApp(): Express {
   // API Routes
   app.use('/api/auth', authRoutes);
   app.use('/api/projects', projectRoutes);
-  app.use('/api/projects/:projectId/environments', environmentRoutes);
+  app.use('/api/projects/:projectId/environments', projectEnvironmentRoutes, environmentRoutes);
+  app.use('/api/environments', environmentRoutes);
   app.use('/api/projects/:projectId/deployments', deploymentRoutes);
   app.use('/api/deployments', deploymentRoutes);
+  app.use('/api/variable-groups', variableGroupRoutes);
+  app.use('/api/admin', adminRoutes);
 
   // Webhook Routes (must be after raw body middleware)
   app.use('/webhooks', webhookRoutes);
 
+  // ACME HTTP-01 challenges for custom domain certificates (no auth required)
+  app.use('/.well-known/acme-challenge', acmeRoutes);
+
   // 404 handler
   app.use((req: Request, res: Response) => {
     sendError(res, HTTP_STATUS.NOT_FOUND, 'NOT_FOUND', 'Endpoint not found');
@@ -24,6 +24,19 @@ export const config = {
     expiry: process.env.JWT_EXPIRY || '7d',
   },
 
+  // Platform administrators (comma-separated emails) allowed to use /api/admin
+  admin: {
+    emails: (process.env.ADMIN_EMAILS || '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean),
+  },
+
+  // Secrets store: 32-byte master key (base64) that wraps the per-secret data keys
+  secrets: {
+    masterKey: process.env.SECRETS_MASTER_KEY || '',
+  },
+
   // CORS Configuration
   cors: {
     origin: (process.env.CORS_ORIGIN || 'http://localhost:3000,http://localhost:5173').split(','),
@@ -41,6 +54,77 @@ export const config = {
     password: process.env.DOCKER_REGISTRY_PASSWORD || '',
   },
 
+  // Deployment Job Queue (consumed by the worker process)
+  queue: {
+    pollIntervalMs: parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '2000', 10),
+    leaseSeconds: parseInt(process.env.QUEUE_LEASE_SECONDS || '120', 10),
+    heartbeatIntervalMs: parseInt(process.env.QUEUE_HEARTBEAT_INTERVAL_MS || '30000', 10),
+    maxAttempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || '3', 10),
+    retryBackoffSeconds: parseInt(process.env.QUEUE_RETRY_BACKOFF_SECONDS || '30', 10),
+    concurrency: parseInt(process.env.WORKER_CONCURRENCY || '1', 10),
+  },
+
+  // Source checkout and image builds
+  builds: {
+    // Hosts repositories may be fetched from (https or ssh); "*" allows any host
+    allowedGitHosts: (process.env.GIT_ALLOWED_HOSTS || 'github.com,gitlab.com,bitbucket.org')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+    // known_hosts file with the SSH host keys of allowed hosts other than github.com,
+    // gitlab.com and bitbucket.org, whose keys are built in
+    sshKnownHostsFile: process.env.GIT_SSH_KNOWN_HOSTS_FILE || '',
+    gitTimeoutSeconds: parseInt(process.env.GIT_TIMEOUT_SECONDS || '300', 10),
+    buildTimeoutSeconds: parseInt(process.env.BUILD_TIMEOUT_SECONDS || '1800', 10),
+    // Per-project git repositories that builds fetch into incrementally
+    workspaceDir: process.env.BUILD_WORKSPACE_DIR || '/tmp/gilgal-workspaces',
+  },
+
+  // Host port range for user containers
+  ports: {
+    rangeStart: parseInt(process.env.CONTAINER_PORT_RANGE_START || '8000', 10),
+    rangeEnd: parseInt(process.env.CONTAINER_PORT_RANGE_END || '8999', 10),
+  },
+
+  // Container rollout (blue/green swap)
+  rollout: {
+    readinessTimeoutSeconds: parseInt(process.env.ROLLOUT_READINESS_TIMEOUT_SECONDS || '60', 10),
+    drainSeconds: parseInt(process.env.ROLLOUT_DRAIN_SECONDS || '10', 10),
+  },
+
+  // Custom domain ownership verification
+  domains: {
+    // Comma-separated resolvers (ip or ip:port); empty uses the system resolver
+    dnsServers: (process.env.DOMAIN_DNS_SERVERS || '')
+      .split(',')
+      .map((server) => server.trim())
+      .filter(Boolean),
+    dnsTimeoutMs: parseInt(process.env.DOMAIN_DNS_TIMEOUT_MS || '5000', 10),
+  },
+
+  // ACME (Let's Encrypt) certificates for verified custom domains, issued by the worker
+  acme: {
+    enabled: process.env.ACME_ENABLED === 'true',
+    directoryUrl:
+      process.env.ACME_DIRECTORY_URL || 'https://acme-v02.api.letsencrypt.org/directory',
+    email: process.env.ACME_EMAIL || '',
+    certDir: process.env.ACME_CERT_DIR || '/etc/gilgal/certs',
+    renewBeforeDays: parseInt(process.env.ACME_RENEW_BEFORE_DAYS || '30', 10),
+    checkIntervalMs: parseInt(process.env.ACME_CHECK_INTERVAL_MS || '60000', 10),
+    retryBackoffMinutes: parseInt(process.env.ACME_RETRY_BACKOFF_MINUTES || '15', 10),
+    // The client pre-checks challenges over HTTP; disable for Pebble with fake domains
+    skipChallengeVerification: process.env.ACME_SKIP_CHALLENGE_VERIFICATION === 'true',
+  },
+
+  // Reverse proxy that routes traffic to user containers
+  proxy: {
+    provider: process.env.PROXY_PROVIDER || 'nginx', // nginx | caddy | traefik
+    caddyAdminUrl: process.env.CADDY_ADMIN_URL || 'http://localhost:2019',
+    traefikConfigPath: process.env.TRAEFIK_CONFIG_PATH || '/etc/traefik/dynamic/gilgal.yml',
+    traefikHttpEntryPoint: process.env.TRAEFIK_HTTP_ENTRYPOINT || 'web',
+    traefikHttpsEntryPoint: process.env.TRAEFIK_HTTPS_ENTRYPOINT || 'websecure',
+  },
+
   // Feature Flags
   features: {
     enableDeploymentLogs: true,
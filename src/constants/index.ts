@@ -38,9 +38,16 @@ export const ERROR_CODES = {
   INSUFFICIENT_PERMISSIONS: 'INSUFFICIENT_PERMISSIONS',
   PROJECT_NOT_FOUND: 'PROJECT_NOT_FOUND',
 
+  // Domain errors
+  DOMAIN_ALREADY_IN_USE: 'DOMAIN_ALREADY_IN_USE',
+
+  // Secrets errors
+  SECRETS_NOT_CONFIGURED: 'SECRETS_NOT_CONFIGURED',
+
   // Server errors
   INTERNAL_SERVER_ERROR: 'INTERNAL_SERVER_ERROR',
   DATABASE_ERROR: 'DATABASE_ERROR',
+  PORT_POOL_EXHAUSTED: 'PORT_POOL_EXHAUSTED',
 };
 
 export const API_ROUTES = {
@@ -87,6 +94,45 @@ export const DEPLOYMENT_STATUS = {
   BUILDING: 'building',
   SUCCESS: 'success',
   FAILED: 'failed',
+  CANCELLED: 'cancelled',
+};
+
+export const DEPLOYMENT_JOB_STATUS = {
+  QUEUED: 'queued',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  CANCELLED: 'cancelled',
+};
+
+export const DOMAIN_STATUS = {
+  PENDING: 'pending',
+  VERIFIED: 'verified',
+  FAILED: 'failed',
+};
+
+export const CERTIFICATE_STATUS = {
+  PENDING: 'pending',
+  ISSUED: 'issued',
+  FAILED: 'failed',
+};
+
+export const VARIABLE_IMPORT_MODES = {
+  MERGE: 'merge',
+  REPLACE: 'replace',
+};
+
+export const VARIABLE_EXPORT_FORMATS = {
+  ENV: 'env',
+  JSON: 'json',
+  SHELL: 'shell',
+};
+
+export const WEBHOOK_DELIVERY_STATUS = {
+  DEPLOYED: 'deployed',
+  IGNORED: 'ignored',
+  REMOVED: 'removed',
+  FAILED: 'failed',
 };
 
 export const PROJECT_STATUS = {
@@ -99,4 +145,10 @@ export const ENVIRONMENT_TYPES = {
   PRODUCTION: 'production',
   STAGING: 'staging',
   DEVELOPMENT: 'development',
+  PREVIEW: 'preview',
+};
+
+export const PREVIEW_STATUS = {
+  OPEN: 'open',
+  CLOSED: 'closed',
 };
@@ -161,6 +161,316 @@ const migrations = [
       CREATE INDEX IF NOT EXISTS idx_projects_deployed_url ON projects(deployed_url);
     `,
   },
+  {
+    id: '014_create_deployment_jobs_table',
+    sql: `
+      CREATE TABLE IF NOT EXISTS deployment_jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        deployment_id UUID NOT NULL REFERENCES deployments(id) ON DELETE CASCADE,
+        status VARCHAR(50) NOT NULL DEFAULT 'queued',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 3,
+        run_after TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        locked_by VARCHAR(255),
+        locked_until TIMESTAMP,
+        last_heartbeat_at TIMESTAMP,
+        last_error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_deployment_jobs_deployment_id ON deployment_jobs(deployment_id);
+      CREATE INDEX IF NOT EXISTS idx_deployment_jobs_claim ON deployment_jobs(status, run_after);
+      CREATE UNIQUE INDEX IF NOT EXISTS deployment_jobs_active_deployment
+      ON deployment_jobs(deployment_id)
+      WHERE status IN ('queued', 'running');
+    `,
+  },
+  {
+    id: '015_add_stream_columns_to_deployment_logs',
+    sql: `
+      ALTER TABLE deployment_logs ADD COLUMN IF NOT EXISTS seq BIGSERIAL;
+      ALTER TABLE deployment_logs ADD COLUMN IF NOT EXISTS source VARCHAR(20) DEFAULT 'pipeline';
+      CREATE INDEX IF NOT EXISTS idx_deployment_logs_deployment_seq ON deployment_logs(deployment_id, seq);
+    `,
+  },
+  {
+    id: '016_add_image_and_rollback_source_to_deployments',
+    sql: `
+      ALTER TABLE deployments ADD COLUMN IF NOT EXISTS image_name VARCHAR(255);
+      ALTER TABLE deployments ADD COLUMN IF NOT EXISTS framework VARCHAR(50);
+      ALTER TABLE deployments ADD COLUMN IF NOT EXISTS source_deployment_id UUID REFERENCES deployments(id) ON DELETE SET NULL;
+      CREATE INDEX IF NOT EXISTS idx_deployments_source_deployment_id ON deployments(source_deployment_id);
+    `,
+  },
+  {
+    id: '017_create_port_reservations_table',
+    sql: `
+      CREATE TABLE IF NOT EXISTS port_reservations (
+        port INTEGER PRIMARY KEY,
+        deployment_id UUID REFERENCES deployments(id) ON DELETE CASCADE,
+        container_id VARCHAR(255),
+        reserved_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_port_reservations_container_id ON port_reservations(container_id);
+      CREATE INDEX IF NOT EXISTS idx_port_reservations_deployment_id ON port_reservations(deployment_id);
+
+      -- Reserve ports still held by the live deployment of each environment
+      INSERT INTO port_reservations (port, deployment_id, container_id)
+      SELECT DISTINCT ON (container_port) container_port, id, container_id
+      FROM (
+        SELECT DISTINCT ON (environment_id) container_port, id, container_id, deployed_at
+        FROM deployments
+        WHERE status = 'success' AND container_port IS NOT NULL
+        ORDER BY environment_id, deployed_at DESC
+      ) live
+      ORDER BY container_port, deployed_at DESC
+      ON CONFLICT (port) DO NOTHING;
+    `,
+  },
+  {
+    id: '018_add_health_check_to_environments',
+    sql: `
+      ALTER TABLE environments ADD COLUMN IF NOT EXISTS health_check JSONB;
+    `,
+  },
+  {
+    id: '019_add_domain_verification_to_environments',
+    sql: `
+      ALTER TABLE environments ADD COLUMN IF NOT EXISTS domain_status VARCHAR(20);
+      ALTER TABLE environments ADD COLUMN IF NOT EXISTS domain_verification_token VARCHAR(64);
+      ALTER TABLE environments ADD COLUMN IF NOT EXISTS domain_verified_at TIMESTAMP;
+      ALTER TABLE environments ADD COLUMN IF NOT EXISTS domain_checked_at TIMESTAMP;
+      ALTER TABLE environments ADD COLUMN IF NOT EXISTS domain_verification_error TEXT;
+
+      -- Domains stored before verification existed must be verified before they are routed
+      UPDATE environments
+      SET domain_status = 'pending',
+          domain_verification_token = replace(gen_random_uuid()::text, '-', '')
+      WHERE domain IS NOT NULL AND domain_status IS NULL;
+    `,
+  },
+  {
+    id: '020_create_certificates_tables',
+    sql: `
+      CREATE TABLE IF NOT EXISTS certificates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        domain VARCHAR(255) UNIQUE NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        cert_path TEXT,
+        key_path TEXT,
+        issued_at TIMESTAMP,
+        expires_at TIMESTAMP,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        last_error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_certificates_next_attempt ON certificates(next_attempt_at);
+
+      -- HTTP-01 responses are written by the worker and served by the API
+      CREATE TABLE IF NOT EXISTS acme_challenges (
+        token VARCHAR(255) PRIMARY KEY,
+        key_authorization TEXT NOT NULL,
+        domain VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `,
+  },
+  {
+    id: '021_create_nginx_config_versions_table',
+    sql: `
+      CREATE TABLE IF NOT EXISTS nginx_config_versions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        checksum VARCHAR(64) NOT NULL,
+        content TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        error TEXT,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_nginx_config_versions_created_at ON nginx_config_versions(created_at);
+    `,
+  },
+  {
+    id: '022_create_environment_secrets_table',
+    sql: `
+      CREATE TABLE IF NOT EXISTS environment_secrets (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        environment_id UUID NOT NULL REFERENCES environments(id) ON DELETE CASCADE,
+        key VARCHAR(255) NOT NULL,
+        ciphertext TEXT NOT NULL,
+        wrapped_key TEXT NOT NULL,
+        master_key_id VARCHAR(16) NOT NULL,
+        fingerprint VARCHAR(64) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (environment_id, key)
+      );
+    `,
+  },
+  {
+    id: '023_create_environment_variable_revisions_table',
+    sql: `
+      CREATE TABLE IF NOT EXISTS environment_variable_revisions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        environment_id UUID NOT NULL REFERENCES environments(id) ON DELETE CASCADE,
+        revision INTEGER NOT NULL,
+        variables JSONB NOT NULL DEFAULT '{}',
+        secrets JSONB NOT NULL DEFAULT '{}',
+        created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+        restored_from INTEGER,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (environment_id, revision)
+      );
+
+      ALTER TABLE deployments ADD COLUMN IF NOT EXISTS variables_revision INTEGER;
+
+      -- Existing environments start their history from what they hold now
+      INSERT INTO environment_variable_revisions (environment_id, revision, variables, secrets)
+      SELECT e.id, 1, COALESCE(e.environment_variables, '{}'),
+             COALESCE((
+               SELECT jsonb_object_agg(s.key, jsonb_build_object(
+                 'ciphertext', s.ciphertext,
+                 'wrappedKey', s.wrapped_key,
+                 'masterKeyId', s.master_key_id,
+                 'fingerprint', s.fingerprint
+               ))
+               FROM environment_secrets s
+               WHERE s.environment_id = e.id
+             ), '{}')
+      FROM environments e
+      WHERE e.deleted_at IS NULL
+      ON CONFLICT (environment_id, revision) DO NOTHING;
+    `,
+  },
+  {
+    id: '024_create_variable_groups_tables',
+    sql: `
+      CREATE TABLE IF NOT EXISTS variable_groups (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        description TEXT,
+        variables JSONB NOT NULL DEFAULT '{}',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (user_id, name)
+      );
+
+      CREATE TABLE IF NOT EXISTS environment_variable_groups (
+        environment_id UUID NOT NULL REFERENCES environments(id) ON DELETE CASCADE,
+        group_id UUID NOT NULL REFERENCES variable_groups(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (environment_id, group_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_environment_variable_groups_group_id ON environment_variable_groups(group_id);
+    `,
+  },
+  {
+    id: '025_add_ref_and_commit_author_to_deployments',
+    sql: `
+      ALTER TABLE deployments ADD COLUMN IF NOT EXISTS ref VARCHAR(255);
+      ALTER TABLE deployments ADD COLUMN IF NOT EXISTS commit_author VARCHAR(255);
+    `,
+  },
+  {
+    id: '026_add_branch_patterns_and_webhook_deliveries',
+    sql: `
+      ALTER TABLE environments ADD COLUMN IF NOT EXISTS branch_patterns TEXT[] NOT NULL DEFAULT '{}';
+
+      -- Pushes used to deploy every branch to each project's first environment by name;
+      -- keep that environment tracking all branches until its owner narrows it down
+      UPDATE environments SET branch_patterns = ARRAY['**']
+      WHERE id IN (
+        SELECT DISTINCT ON (project_id) id
+        FROM environments
+        WHERE deleted_at IS NULL
+        ORDER BY project_id, name ASC
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        event VARCHAR(50) NOT NULL,
+        ref VARCHAR(255),
+        commit_sha VARCHAR(40),
+        status VARCHAR(20) NOT NULL,
+        reason TEXT,
+        deployment_ids UUID[] NOT NULL DEFAULT '{}',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_project_id ON webhook_deliveries(project_id, created_at);
+    `,
+  },
+  {
+    id: '027_create_preview_environments_table',
+    sql: `
+      CREATE TABLE IF NOT EXISTS preview_environments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        environment_id UUID NOT NULL REFERENCES environments(id) ON DELETE CASCADE,
+        pull_request_number INTEGER NOT NULL,
+        title TEXT,
+        pull_request_url TEXT,
+        head_ref VARCHAR(255) NOT NULL,
+        head_sha VARCHAR(40),
+        author VARCHAR(255),
+        status VARCHAR(20) NOT NULL DEFAULT 'open',
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        closed_at TIMESTAMP,
+        UNIQUE(project_id, pull_request_number)
+      );
+      CREATE INDEX IF NOT EXISTS idx_preview_environments_environment_id ON preview_environments(environment_id);
+    `,
+  },
+  {
+    id: '028_add_deploy_key_to_projects',
+    sql: `
+      -- Encrypted with the secrets master key, like environment secrets
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS deploy_key JSONB;
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS deploy_key_updated_at TIMESTAMP;
+    `,
+  },
+  {
+    id: '029_add_build_strategy_to_deployments',
+    sql: `
+      ALTER TABLE deployments ADD COLUMN IF NOT EXISTS build_strategy VARCHAR(50);
+      -- Port the app listens on inside the container, decided by the build strategy
+      ALTER TABLE deployments ADD COLUMN IF NOT EXISTS app_port INTEGER;
+
+      -- Earlier builds served react and next apps on port 80 and everything else on 3000
+      UPDATE deployments
+      SET app_port = CASE WHEN framework IN ('react', 'next') THEN 80 ELSE 3000 END
+      WHERE app_port IS NULL AND image_name IS NOT NULL;
+    `,
+  },
+  {
+    id: '030_add_manifest_to_deployments',
+    sql: `
+      -- Validated gilgal.json / gilgal.yaml the image was built with; rollbacks reuse it
+      ALTER TABLE deployments ADD COLUMN IF NOT EXISTS manifest JSONB;
+    `,
+  },
+  {
+    id: '031_add_build_cache',
+    sql: `
+      -- Bumped when a project's build cache is cleared; cache mount ids include it
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS build_cache_generation INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE projects ADD COLUMN IF NOT EXISTS build_cache_cleared_at TIMESTAMP;
+
+      -- Workspace and layer cache hits of each build
+      ALTER TABLE deployments ADD COLUMN IF NOT EXISTS build_cache JSONB;
+    `,
+  },
+  {
+    id: '032_add_group_variables_to_variable_revisions',
+    sql: `
+      -- Merged values of the environment's variable groups when the revision was saved
+      ALTER TABLE environment_variable_revisions ADD COLUMN IF NOT EXISTS group_variables JSONB NOT NULL DEFAULT '{}';
+    `,
+  },
 ];
 
 /**
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import config from '../config';
 import { HTTP_STATUS, ERROR_CODES } from '../constants';
 import { extractTokenFromHeader, verifyToken } from '../utils/jwt';
 import { ApiError } from '../utils/error';
@@ -72,3 +73,19 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
   }
   next();
 }
+
+/**
+ * Platform administrator middleware (use after authMiddleware)
+ * Admins are the users whose email is listed in ADMIN_EMAILS
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!req.user || !config.admin.emails.includes(req.user.email.toLowerCase())) {
+    res.status(HTTP_STATUS.FORBIDDEN).json({
+      success: false,
+      error: ERROR_CODES.INSUFFICIENT_PERMISSIONS,
+      message: 'Administrator access required',
+    });
+    return;
+  }
+  next();
+}
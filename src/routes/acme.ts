@@ -0,0 +1,29 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { CertificateService } from '../services/CertificateService';
+import { HTTP_STATUS } from '../constants';
+
+const router = Router();
+
+/**
+ * ACME Challenge Routes
+ * GET /.well-known/acme-challenge/:token - HTTP-01 challenge response
+ *
+ * nginx forwards this path for verified custom domains to the API; the response
+ * must be the bare key authorization, not the usual JSON envelope
+ */
+router.get('/:token', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const keyAuthorization = await CertificateService.getChallengeResponse(req.params.token);
+
+    if (!keyAuthorization) {
+      res.status(HTTP_STATUS.NOT_FOUND).type('text/plain').send('Not found');
+      return;
+    }
+
+    res.type('text/plain').send(keyAuthorization);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,73 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { NginxConfigService } from '../services/NginxConfigService';
+import { sendSuccess } from '../utils/error';
+import { PAGINATION } from '../constants';
+import { authMiddleware, requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Admin Routes (platform administrators only, see ADMIN_EMAILS)
+ * GET /api/admin/nginx/versions - List applied/failed nginx config versions
+ * GET /api/admin/nginx/versions/:id - Get a config version with its content
+ * GET /api/admin/nginx/versions/:id/diff - Diff a version against the previous one
+ */
+router.use(authMiddleware, requireAdmin);
+
+/**
+ * List nginx config versions
+ * GET /api/admin/nginx/versions
+ */
+router.get('/nginx/versions', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = Math.max(1, parseInt(req.query.page as string) || PAGINATION.DEFAULT_PAGE);
+    const limit = Math.min(
+      parseInt(req.query.limit as string) || PAGINATION.DEFAULT_LIMIT,
+      PAGINATION.MAX_LIMIT
+    );
+    const offset = (page - 1) * limit;
+
+    const { versions, total } = await NginxConfigService.listVersions(limit, offset);
+
+    sendSuccess(res, {
+      items: versions,
+      total,
+      page,
+      limit,
+      hasMore: offset + limit < total,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get nginx config version
+ * GET /api/admin/nginx/versions/:id
+ */
+router.get('/nginx/versions/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const version = await NginxConfigService.getVersion(req.params.id);
+
+    sendSuccess(res, version);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Diff nginx config version against ?against=<versionId> (default: previous applied version)
+ * GET /api/admin/nginx/versions/:id/diff
+ */
+router.get('/nginx/versions/:id/diff', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const against = typeof req.query.against === 'string' ? req.query.against : undefined;
+    const diff = await NginxConfigService.diffVersions(req.params.id, against);
+
+    sendSuccess(res, diff);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,9 +1,10 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { DeploymentService } from '../services/DeploymentService';
-import { NginxConfigService } from '../services/NginxConfigService';
+import { LogStreamService } from '../services/LogStreamService';
 import { sendSuccess, sendError } from '../utils/error';
 import { HTTP_STATUS, ERROR_CODES, PAGINATION } from '../constants';
 import { authMiddleware } from '../middleware/auth';
+import { DeploymentLog } from '../types';
 
 const router = Router({ mergeParams: true });
 
@@ -13,6 +14,7 @@ const router = Router({ mergeParams: true });
  * POST /api/projects/:projectId/deployments - Create/trigger deployment
  * GET /api/deployments/:id - Get deployment details
  * GET /api/deployments/:id/logs - Get deployment logs
+ * GET /api/deployments/:id/logs/stream - Stream deployment logs (Server-Sent Events)
  * POST /api/deployments/:id/rollback - Rollback deployment
  * DELETE /api/deployments/:id - Cancel deployment
  */
@@ -76,7 +78,7 @@ router.post('/', authMiddleware, async (req: Request, res: Response, next: NextF
       return;
     }
 
-    const { environmentId, commitSha, commitMessage } = req.body;
+    const { environmentId, ref, commitSha, commitMessage } = req.body;
 
     // Validation
     if (!environmentId) {
@@ -94,6 +96,7 @@ router.post('/', authMiddleware, async (req: Request, res: Response, next: NextF
       req.user.userId,
       {
         environmentId,
+        ref,
         commitSha,
         commitMessage,
       }
@@ -160,6 +163,114 @@ router.get('/:id/logs', authMiddleware, async (req: Request, res: Response, next
   }
 });
 
+/**
+ * Stream deployment logs live over Server-Sent Events
+ * GET /api/deployments/:id/logs/stream?since=<seq>
+ * Resumes after `since` (or the Last-Event-ID header); each event id is the log seq
+ * Sends an `end` event once the deployment has finished and no new logs arrive
+ */
+router.get(
+  '/:id/logs/stream',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const deploymentId = req.params.id;
+      const userId = req.user.userId;
+      const resumeFrom = (req.query.since as string) || req.header('last-event-id') || '0';
+      let lastSeq = Math.max(0, parseInt(resumeFrom, 10) || 0);
+
+      // Verifies access before any SSE headers are written
+      const backlog = await DeploymentService.getDeploymentLogsSince(deploymentId, userId, lastSeq);
+
+      res.status(HTTP_STATUS.OK);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+
+      let closed = false;
+      let flushing: Promise<void> = Promise.resolve();
+      let unsubscribe = () => {};
+
+      const writeLogs = (logs: DeploymentLog[]) => {
+        for (const log of logs) {
+          lastSeq = Number(log.seq);
+          res.write(`id: ${lastSeq}\nevent: log\ndata: ${JSON.stringify(log)}\n\n`);
+        }
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(ticker);
+        unsubscribe();
+        res.end();
+      };
+
+      // Fetch anything newer than lastSeq; end the stream once the deployment is finished
+      const flush = (checkFinished: boolean) => {
+        flushing = flushing
+          .then(async () => {
+            if (closed) return;
+            const logs = await DeploymentService.getDeploymentLogsSince(
+              deploymentId,
+              userId,
+              lastSeq
+            );
+            writeLogs(logs);
+
+            if (checkFinished && logs.length === 0) {
+              const { status } = await DeploymentService.getDeployment(deploymentId, userId);
+              if (['success', 'failed', 'cancelled'].includes(status)) {
+                res.write(`event: end\ndata: ${JSON.stringify({ status })}\n\n`);
+                close();
+              }
+            }
+          })
+          .catch((error) => {
+            console.error('[LogStream] Failed to stream logs:', error);
+            close();
+          });
+      };
+
+      // Periodic poll doubles as a keep-alive and a fallback for missed notifications
+      const ticker = setInterval(() => {
+        res.write(': keep-alive\n\n');
+        flush(true);
+      }, 5000);
+
+      req.on('close', close);
+      writeLogs(backlog);
+
+      unsubscribe = await LogStreamService.subscribe(deploymentId, () => flush(false));
+      if (closed) {
+        unsubscribe();
+        return;
+      }
+
+      flush(true);
+    } catch (error) {
+      if (res.headersSent) {
+        console.error('[LogStream] Stream setup failed:', error);
+        res.end();
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
 /**
  * Rollback to previous deployment
  * POST /api/deployments/:id/rollback
@@ -179,12 +290,12 @@ router.post(
         return;
       }
 
-      const previousDeployment = await DeploymentService.rollbackDeployment(
+      const rollbackDeployment = await DeploymentService.rollbackDeployment(
         req.params.id,
         req.user.userId
       );
 
-      sendSuccess(res, previousDeployment, 'Deployment rolled back successfully');
+      sendSuccess(res, rollbackDeployment, 'Rollback started', HTTP_STATUS.ACCEPTED);
     } catch (error) {
       next(error);
     }
@@ -1,106 +1,154 @@
-import { Router, Request, Response, NextFunction } from 'express';
+import express, { Router, Request, Response, NextFunction } from 'express';
 import { EnvironmentService } from '../services/EnvironmentService';
+import { DomainService } from '../services/DomainService';
+import { VariableRevisionService } from '../services/VariableRevisionService';
+import { VariableGroupService } from '../services/VariableGroupService';
 import { sendSuccess, sendError } from '../utils/error';
 import { HTTP_STATUS, ERROR_CODES, PAGINATION } from '../constants';
 import { authMiddleware } from '../middleware/auth';
 
 const router = Router({ mergeParams: true });
 
+// Routes that need the project from the URL; only mounted under /api/projects/:projectId
+export const projectEnvironmentRoutes = Router({ mergeParams: true });
+
 /**
  * Environment Routes
  * GET /api/projects/:projectId/environments - List environments
  * POST /api/projects/:projectId/environments - Create environment
  * PUT /api/environments/:id - Update environment
  * DELETE /api/environments/:id - Delete environment
+ * GET /api/environments/:id/domain - Custom domain status and DNS challenge
+ * POST /api/environments/:id/domain/verify - Verify custom domain ownership
+ * GET /api/environments/:id/variables/revisions - List variable revisions
+ * GET /api/environments/:id/variables/revisions/:revision - Get a variable revision
+ * GET /api/environments/:id/variables/revisions/:revision/diff - Diff against another revision
+ * POST /api/environments/:id/variables/revisions/:revision/restore - Restore a revision
+ * POST /api/environments/:id/variables/import - Import variables from a .env file
+ * GET /api/environments/:id/variables/export - Export variables as .env, JSON or shell
+ * GET /api/environments/:id/variables/effective - Merged variables a deployment would get
+ * GET /api/environments/:id/variable-groups - List attached variable groups
+ * POST /api/environments/:id/variable-groups - Attach a variable group
+ * DELETE /api/environments/:id/variable-groups/:groupId - Detach a variable group
+ */
+
+/**
+ * Parse a revision number route/query parameter; null if it isn't a positive integer
  */
+function parseRevision(value: unknown): number | null {
+  const revision = typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  return revision > 0 ? revision : null;
+}
 
 /**
  * List all environments for a project
  * GET /api/projects/:projectId/environments
  */
-router.get('/', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    if (!req.user) {
-      sendError(res, HTTP_STATUS.UNAUTHORIZED, ERROR_CODES.UNAUTHORIZED, 'Authentication required');
-      return;
-    }
+projectEnvironmentRoutes.get(
+  '/',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
 
-    const environments = await EnvironmentService.getProjectEnvironments(
-      req.params.projectId,
-      req.user.userId
-    );
+      const environments = await EnvironmentService.getProjectEnvironments(
+        req.params.projectId,
+        req.user.userId
+      );
 
-    sendSuccess(res, {
-      items: environments,
-      total: environments.length,
-    });
-  } catch (error) {
-    next(error);
+      sendSuccess(res, {
+        items: environments,
+        total: environments.length,
+      });
+    } catch (error) {
+      next(error);
+    }
   }
-});
+);
 
 /**
  * Create new environment
  * POST /api/projects/:projectId/environments
  */
-router.post('/', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    if (!req.user) {
-      sendError(res, HTTP_STATUS.UNAUTHORIZED, ERROR_CODES.UNAUTHORIZED, 'Authentication required');
-      return;
-    }
-
-    // Check if body is empty or missing
-    if (!req.body || Object.keys(req.body).length === 0) {
-      sendError(
-        res,
-        HTTP_STATUS.BAD_REQUEST,
-        ERROR_CODES.VALIDATION_ERROR,
-        'Request body is required'
-      );
-      return;
-    }
+projectEnvironmentRoutes.post(
+  '/',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
 
-    const { name, type, domain, environmentVariables } = req.body;
+      // Check if body is empty or missing
+      if (!req.body || Object.keys(req.body).length === 0) {
+        sendError(
+          res,
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          'Request body is required'
+        );
+        return;
+      }
 
-    // Validation
-    if (!name || !type) {
-      sendError(
-        res,
-        HTTP_STATUS.BAD_REQUEST,
-        ERROR_CODES.VALIDATION_ERROR,
-        'Name and type are required'
-      );
-      return;
-    }
+      const { name, type, domain, branchPatterns, environmentVariables, secrets, healthCheck } =
+        req.body;
 
-    const validTypes = ['production', 'staging', 'development'];
-    if (!validTypes.includes(type)) {
-      sendError(
-        res,
-        HTTP_STATUS.BAD_REQUEST,
-        ERROR_CODES.VALIDATION_ERROR,
-        'Invalid environment type'
-      );
-      return;
-    }
+      // Validation
+      if (!name || !type) {
+        sendError(
+          res,
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          'Name and type are required'
+        );
+        return;
+      }
 
-    const environment = await EnvironmentService.createEnvironment(
-      req.params.projectId,
-      req.user.userId,
-      {
-        name,
-        type,
-        domain,
-        environmentVariables,
+      const validTypes = ['production', 'staging', 'development'];
+      if (!validTypes.includes(type)) {
+        sendError(
+          res,
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          'Invalid environment type'
+        );
+        return;
       }
-    );
 
-    sendSuccess(res, environment, 'Environment created successfully', HTTP_STATUS.CREATED);
-  } catch (error) {
-    next(error);
+      const environment = await EnvironmentService.createEnvironment(
+        req.params.projectId,
+        req.user.userId,
+        {
+          name,
+          type,
+          domain,
+          branchPatterns,
+          environmentVariables,
+          secrets,
+          healthCheck,
+        }
+      );
+
+      sendSuccess(res, environment, 'Environment created successfully', HTTP_STATUS.CREATED);
+    } catch (error) {
+      next(error);
+    }
   }
-});
+);
 
 /**
  * Update environment
@@ -124,12 +172,15 @@ router.put('/:id', authMiddleware, async (req: Request, res: Response, next: Nex
       return;
     }
 
-    const { name, domain, environmentVariables } = req.body;
+    const { name, domain, branchPatterns, environmentVariables, secrets, healthCheck } = req.body;
 
     const environment = await EnvironmentService.updateEnvironment(req.params.id, req.user.userId, {
       name,
       domain,
+      branchPatterns,
       environmentVariables,
+      secrets,
+      healthCheck,
     });
 
     sendSuccess(res, environment, 'Environment updated successfully');
@@ -157,4 +208,445 @@ router.delete('/:id', authMiddleware, async (req: Request, res: Response, next:
   }
 });
 
+/**
+ * Get custom domain verification status and the DNS records to create
+ * GET /api/environments/:id/domain
+ */
+router.get(
+  '/:id/domain',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const verification = await DomainService.getDomainVerification(
+        req.params.id,
+        req.user.userId
+      );
+
+      sendSuccess(res, verification);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Check the DNS challenge and mark the custom domain verified
+ * POST /api/environments/:id/domain/verify
+ */
+router.post(
+  '/:id/domain/verify',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const verification = await DomainService.verifyDomain(req.params.id, req.user.userId);
+
+      sendSuccess(
+        res,
+        verification,
+        verification.status === 'verified'
+          ? 'Domain verified successfully'
+          : 'Domain verification failed'
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * List environment variable revisions, newest first
+ * GET /api/environments/:id/variables/revisions
+ */
+router.get(
+  '/:id/variables/revisions',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const page = Math.max(1, parseInt(req.query.page as string) || PAGINATION.DEFAULT_PAGE);
+      const limit = Math.min(
+        parseInt(req.query.limit as string) || PAGINATION.DEFAULT_LIMIT,
+        PAGINATION.MAX_LIMIT
+      );
+      const offset = (page - 1) * limit;
+
+      const { revisions, total } = await VariableRevisionService.listRevisions(
+        req.params.id,
+        req.user.userId,
+        limit,
+        offset
+      );
+
+      sendSuccess(res, {
+        items: revisions,
+        total,
+        page,
+        limit,
+        hasMore: offset + limit < total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Get an environment variable revision (secret values masked)
+ * GET /api/environments/:id/variables/revisions/:revision
+ */
+router.get(
+  '/:id/variables/revisions/:revision',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const revision = parseRevision(req.params.revision);
+      if (!revision) {
+        sendError(res, HTTP_STATUS.BAD_REQUEST, ERROR_CODES.VALIDATION_ERROR, 'Invalid revision');
+        return;
+      }
+
+      const result = await VariableRevisionService.getRevision(
+        req.params.id,
+        req.user.userId,
+        revision
+      );
+
+      sendSuccess(res, result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Diff a revision against another one (default: the previous revision)
+ * GET /api/environments/:id/variables/revisions/:revision/diff?against=
+ */
+router.get(
+  '/:id/variables/revisions/:revision/diff',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const revision = parseRevision(req.params.revision);
+      const against =
+        req.query.against === undefined ? undefined : parseRevision(req.query.against);
+      if (!revision || against === null) {
+        sendError(res, HTTP_STATUS.BAD_REQUEST, ERROR_CODES.VALIDATION_ERROR, 'Invalid revision');
+        return;
+      }
+
+      const diff = await VariableRevisionService.diffRevisions(
+        req.params.id,
+        req.user.userId,
+        revision,
+        against
+      );
+
+      sendSuccess(res, diff);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Restore an earlier revision's variables and secrets (applies on the next deployment)
+ * POST /api/environments/:id/variables/revisions/:revision/restore
+ */
+router.post(
+  '/:id/variables/revisions/:revision/restore',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const revision = parseRevision(req.params.revision);
+      if (!revision) {
+        sendError(res, HTTP_STATUS.BAD_REQUEST, ERROR_CODES.VALIDATION_ERROR, 'Invalid revision');
+        return;
+      }
+
+      const restored = await VariableRevisionService.restoreRevision(
+        req.params.id,
+        req.user.userId,
+        revision
+      );
+
+      sendSuccess(res, restored, `Revision ${revision} restored as revision ${restored.revision}`);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Import variables from a .env file
+ * POST /api/environments/:id/variables/import?mode=merge|replace
+ * Accepts the file as a text/plain body, or JSON { content, mode }
+ */
+router.post(
+  '/:id/variables/import',
+  authMiddleware,
+  express.text({ type: ['text/plain', 'text/x-dotenv'], limit: '1mb' }),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const content = typeof req.body === 'string' ? req.body : req.body?.content;
+      const mode = (req.query.mode as string | undefined) ?? req.body?.mode;
+
+      if (typeof content !== 'string') {
+        sendError(
+          res,
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          'A .env file is required (text/plain body or JSON "content")'
+        );
+        return;
+      }
+
+      const environment = await EnvironmentService.importVariables(
+        req.params.id,
+        req.user.userId,
+        content,
+        mode
+      );
+
+      sendSuccess(res, environment, 'Variables imported successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Export variables as a file download
+ * GET /api/environments/:id/variables/export?format=env|json|shell
+ */
+router.get(
+  '/:id/variables/export',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const { content, contentType, filename } = await EnvironmentService.exportVariables(
+        req.params.id,
+        req.user.userId,
+        req.query.format as string | undefined
+      );
+
+      res.type(contentType).attachment(filename).send(content);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Effective variables: attached groups, then environment variables, then secrets (masked)
+ * GET /api/environments/:id/variables/effective
+ */
+router.get(
+  '/:id/variables/effective',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const variables = await VariableGroupService.getEffectiveVariables(
+        req.params.id,
+        req.user.userId
+      );
+
+      sendSuccess(res, { items: variables, total: variables.length });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * List variable groups attached to an environment, in the order they apply
+ * GET /api/environments/:id/variable-groups
+ */
+router.get(
+  '/:id/variable-groups',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const groups = await VariableGroupService.getEnvironmentGroups(
+        req.params.id,
+        req.user.userId
+      );
+
+      sendSuccess(res, { items: groups, total: groups.length });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Attach a variable group to an environment
+ * POST /api/environments/:id/variable-groups
+ */
+router.post(
+  '/:id/variable-groups',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const { groupId } = req.body || {};
+      if (!groupId || typeof groupId !== 'string') {
+        sendError(
+          res,
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          'groupId is required'
+        );
+        return;
+      }
+
+      const groups = await VariableGroupService.attachGroup(
+        req.params.id,
+        req.user.userId,
+        groupId
+      );
+
+      sendSuccess(res, { items: groups, total: groups.length }, 'Variable group attached');
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Detach a variable group from an environment
+ * DELETE /api/environments/:id/variable-groups/:groupId
+ */
+router.delete(
+  '/:id/variable-groups/:groupId',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      await VariableGroupService.detachGroup(req.params.id, req.user.userId, req.params.groupId);
+
+      sendSuccess(res, null, 'Variable group detached');
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
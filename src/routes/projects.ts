@@ -2,8 +2,12 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { ProjectService } from '../services/ProjectService';
 import { DeploymentService } from '../services/DeploymentService';
 import { GitHubOAuthService } from '../services/GitHubOAuthService';
+import { WebhookService } from '../services/WebhookService';
+import { PreviewService } from '../services/PreviewService';
+import { RepositoryCredentialService } from '../services/RepositoryCredentialService';
+import { BuildCacheService } from '../services/BuildCacheService';
 import { sendSuccess, sendError } from '../utils/error';
-import { HTTP_STATUS, ERROR_CODES, PAGINATION } from '../constants';
+import { HTTP_STATUS, ERROR_CODES, PAGINATION, PREVIEW_STATUS } from '../constants';
 import { authMiddleware, requireAuth } from '../middleware/auth';
 import { query } from '../database';
 import { v4 as uuidv4 } from 'uuid';
@@ -201,24 +205,14 @@ router.post(
         status: 'deploying',
       });
 
-      // Create deployment record in database
+      // Create deployment record and queue it for the deployment worker
       const deployment = await DeploymentService.createDeployment(projectId, req.user.userId, {
         environmentId,
       });
 
-      // Trigger actual deployment process (fire and forget)
-      DeploymentService.executeDeployment(
-        deployment.id,
-        projectId,
-        environmentId,
-        req.user.userId
-      ).catch((error: any) => {
-        console.error('[Deployment Error]', error);
-      });
-
       sendSuccess(
         res,
-        { projectId, environmentId, status: 'deploying' },
+        { projectId, environmentId, deploymentId: deployment.id, status: 'deploying' },
         'Deployment started',
         HTTP_STATUS.ACCEPTED
       );
@@ -355,6 +349,291 @@ router.post(
   }
 );
 
+/**
+ * List push webhook deliveries and what each one did (deployed, ignored or failed)
+ * GET /api/projects/:projectId/webhooks/deliveries
+ */
+router.get(
+  '/:projectId/webhooks/deliveries',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const page = Math.max(1, parseInt(req.query.page as string) || PAGINATION.DEFAULT_PAGE);
+      const limit = Math.min(
+        parseInt(req.query.limit as string) || PAGINATION.DEFAULT_LIMIT,
+        PAGINATION.MAX_LIMIT
+      );
+      const offset = (page - 1) * limit;
+
+      const { deliveries, total } = await WebhookService.listDeliveries(
+        req.params.projectId,
+        req.user.userId,
+        limit,
+        offset
+      );
+
+      sendSuccess(res, {
+        items: deliveries,
+        total,
+        page,
+        limit,
+        hasMore: offset + limit < total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Show whether the project has a deploy key and which credential builds use
+ * GET /api/projects/:projectId/deploy-key
+ */
+router.get(
+  '/:projectId/deploy-key',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const status = await RepositoryCredentialService.getDeployKeyStatus(
+        req.params.projectId,
+        req.user.userId
+      );
+
+      sendSuccess(res, status);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Set the SSH deploy key builds use to fetch a private repository
+ * PUT /api/projects/:projectId/deploy-key
+ */
+router.put(
+  '/:projectId/deploy-key',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const status = await RepositoryCredentialService.setDeployKey(
+        req.params.projectId,
+        req.user.userId,
+        req.body?.privateKey
+      );
+
+      sendSuccess(res, status, 'Deploy key saved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Remove the project's deploy key
+ * DELETE /api/projects/:projectId/deploy-key
+ */
+router.delete(
+  '/:projectId/deploy-key',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const status = await RepositoryCredentialService.removeDeployKey(
+        req.params.projectId,
+        req.user.userId
+      );
+
+      sendSuccess(res, status, 'Deploy key removed successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Show the project's build cache: workspace size and cache hits of recent builds
+ * GET /api/projects/:projectId/build-cache
+ */
+router.get(
+  '/:projectId/build-cache',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const stats = await BuildCacheService.getStats(req.params.projectId, req.user.userId);
+
+      sendSuccess(res, stats);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Clear the project's build cache; the next build starts from a fresh clone
+ * DELETE /api/projects/:projectId/build-cache
+ */
+router.delete(
+  '/:projectId/build-cache',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const stats = await BuildCacheService.clear(req.params.projectId, req.user.userId);
+
+      sendSuccess(res, stats, 'Build cache cleared successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * List pull request preview environments (?status=open|closed)
+ * GET /api/projects/:projectId/previews
+ */
+router.get(
+  '/:projectId/previews',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const status = req.query.status as string | undefined;
+      if (status !== undefined && !Object.values(PREVIEW_STATUS).includes(status)) {
+        sendError(
+          res,
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          `status must be one of: ${Object.values(PREVIEW_STATUS).join(', ')}`
+        );
+        return;
+      }
+
+      const previews = await PreviewService.listPreviews(
+        req.params.projectId,
+        req.user.userId,
+        status
+      );
+
+      sendSuccess(res, {
+        items: previews,
+        total: previews.length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Get the preview of a pull request, including a ready-to-post comment
+ * GET /api/projects/:projectId/previews/:number
+ */
+router.get(
+  '/:projectId/previews/:number',
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        sendError(
+          res,
+          HTTP_STATUS.UNAUTHORIZED,
+          ERROR_CODES.UNAUTHORIZED,
+          'Authentication required'
+        );
+        return;
+      }
+
+      const number = /^\d+$/.test(req.params.number) ? parseInt(req.params.number, 10) : NaN;
+      if (!Number.isInteger(number) || number < 1) {
+        sendError(
+          res,
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          'Pull request number must be a positive integer'
+        );
+        return;
+      }
+
+      const preview = await PreviewService.getPreview(
+        req.params.projectId,
+        req.user.userId,
+        number
+      );
+
+      sendSuccess(res, preview);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * Disable auto-deploy (deletes GitHub webhook)
  * POST /api/projects/:projectId/webhooks/disable
@@ -0,0 +1,149 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { VariableGroupService } from '../services/VariableGroupService';
+import { sendSuccess, sendError } from '../utils/error';
+import { HTTP_STATUS, ERROR_CODES } from '../constants';
+import { authMiddleware } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Variable Group Routes
+ * GET /api/variable-groups - List user variable groups
+ * POST /api/variable-groups - Create variable group
+ * GET /api/variable-groups/:id - Get variable group
+ * PUT /api/variable-groups/:id - Update variable group
+ * DELETE /api/variable-groups/:id - Delete variable group
+ */
+
+/**
+ * List all variable groups for authenticated user
+ * GET /api/variable-groups
+ */
+router.get('/', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      sendError(res, HTTP_STATUS.UNAUTHORIZED, ERROR_CODES.UNAUTHORIZED, 'Authentication required');
+      return;
+    }
+
+    const groups = await VariableGroupService.listGroups(req.user.userId);
+
+    sendSuccess(res, {
+      items: groups,
+      total: groups.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Create new variable group
+ * POST /api/variable-groups
+ */
+router.post('/', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      sendError(res, HTTP_STATUS.UNAUTHORIZED, ERROR_CODES.UNAUTHORIZED, 'Authentication required');
+      return;
+    }
+
+    const { name, description, variables } = req.body || {};
+
+    if (!name || typeof name !== 'string') {
+      sendError(res, HTTP_STATUS.BAD_REQUEST, ERROR_CODES.VALIDATION_ERROR, 'Name is required');
+      return;
+    }
+
+    const group = await VariableGroupService.createGroup(req.user.userId, {
+      name,
+      description,
+      variables,
+    });
+
+    sendSuccess(res, group, 'Variable group created successfully', HTTP_STATUS.CREATED);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Get variable group
+ * GET /api/variable-groups/:id
+ */
+router.get('/:id', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      sendError(res, HTTP_STATUS.UNAUTHORIZED, ERROR_CODES.UNAUTHORIZED, 'Authentication required');
+      return;
+    }
+
+    const group = await VariableGroupService.getGroup(req.params.id, req.user.userId);
+
+    sendSuccess(res, group);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Update variable group
+ * PUT /api/variable-groups/:id
+ */
+router.put('/:id', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      sendError(res, HTTP_STATUS.UNAUTHORIZED, ERROR_CODES.UNAUTHORIZED, 'Authentication required');
+      return;
+    }
+
+    // Check if body is empty or missing
+    if (!req.body || Object.keys(req.body).length === 0) {
+      sendError(
+        res,
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Request body is required'
+      );
+      return;
+    }
+
+    const { name, description, variables } = req.body;
+
+    if (name !== undefined && (!name || typeof name !== 'string')) {
+      sendError(res, HTTP_STATUS.BAD_REQUEST, ERROR_CODES.VALIDATION_ERROR, 'Invalid name');
+      return;
+    }
+
+    const group = await VariableGroupService.updateGroup(req.params.id, req.user.userId, {
+      name,
+      description,
+      variables,
+    });
+
+    sendSuccess(res, group, 'Variable group updated successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Delete variable group (detaches it from all environments)
+ * DELETE /api/variable-groups/:id
+ */
+router.delete('/:id', authMiddleware, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      sendError(res, HTTP_STATUS.UNAUTHORIZED, ERROR_CODES.UNAUTHORIZED, 'Authentication required');
+      return;
+    }
+
+    await VariableGroupService.deleteGroup(req.params.id, req.user.userId);
+
+    sendSuccess(res, null, 'Variable group deleted successfully');
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
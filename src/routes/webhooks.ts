@@ -62,10 +62,8 @@ router.post('/github/:projectId', async (req: Request, res: Response, next: Next
       );
     }
 
-    // Verify GitHub signature
-    try {
-      WebhookService.verifySignature(rawBody, signature, webhookSecret);
-    } catch (error) {
+    // Verify GitHub signature before acting on anything in the payload
+    if (!rawBody || !WebhookService.verifySignature(rawBody, signature, webhookSecret)) {
       return sendError(
         res,
         HTTP_STATUS.UNAUTHORIZED,
@@ -77,14 +75,25 @@ router.post('/github/:projectId', async (req: Request, res: Response, next: Next
     // Check event type
     const eventType = req.headers['x-github-event'] as string;
 
-    if (eventType === 'push') {
-      const result = await WebhookService.handlePushWebhook(req.body, projectId);
+    if (eventType === 'push' || eventType === 'pull_request') {
+      const result =
+        eventType === 'push'
+          ? await WebhookService.handlePushWebhook(req.body, projectId)
+          : await WebhookService.handlePullRequestWebhook(req.body, projectId);
 
       if (!result.success) {
         return sendError(res, HTTP_STATUS.BAD_REQUEST, 'WEBHOOK_FAILED', result.message);
       }
 
-      return sendSuccess(res, { deploymentId: result.deploymentId }, result.message);
+      return sendSuccess(
+        res,
+        {
+          deliveryId: result.deliveryId,
+          deploymentIds: result.deploymentIds,
+          ignored: result.ignored,
+        },
+        result.message
+      );
     } else if (eventType === 'ping') {
       return sendSuccess(res, { message: 'Webhook is configured correctly' }, 'Pong!');
     } else {
@@ -151,7 +160,7 @@ router.post(
         {
           secret: newSecret,
           webhookUrl,
-          instructions: `Add this webhook to your GitHub repository: Settings > Webhooks > Add webhook\n- Payload URL: ${webhookUrl}\n- Content type: application/json\n- Secret: ${newSecret}\n- Events: Push events`,
+          instructions: `Add this webhook to your GitHub repository: Settings > Webhooks > Add webhook\n- Payload URL: ${webhookUrl}\n- Content type: application/json\n- Secret: ${newSecret}\n- Events: Pushes and Pull requests`,
         },
         'Webhook secret generated'
       );
@@ -0,0 +1,126 @@
+import { query } from '../database';
+import { BuildCacheStats, DeploymentBuildCache } from '../types';
+import { ProjectService } from './ProjectService';
+
+/**
+ * Cache settings for one build
+ */
+export interface BuildCacheOptions {
+  // Prefix of the BuildKit cache mount ids; changes when the cache is cleared
+  id: string;
+  generation: number;
+  // Rebuild every layer instead of reusing the layer cache
+  noCache: boolean;
+}
+
+/**
+ * Build Cache Service
+ * A project's builds reuse three caches: its git workspace (WorkspaceService), Docker's
+ * layer cache and the package manager caches mounted into generated Dockerfiles
+ * Builds run in the worker, so the cache lives on its disk: clearing the cache bumps the
+ * project's cache generation, which makes the worker delete the workspace before the next
+ * build, gives later builds fresh cache mounts and makes the next build skip the layer cache
+ */
+export class BuildCacheService {
+  private static readonly RECENT_BUILDS = 20;
+
+  /**
+   * Cache settings for the project's next build
+   */
+  static async getBuildOptions(projectId: string): Promise<BuildCacheOptions> {
+    const result = await query<{ build_cache_generation: number; built: boolean }>(
+      `
+      SELECT p.build_cache_generation,
+             EXISTS (
+               SELECT 1 FROM deployments d
+               WHERE d.project_id = p.id
+                 AND (d.build_cache->>'generation')::int = p.build_cache_generation
+             ) as built
+      FROM projects p
+      WHERE p.id = $1
+      `,
+      [projectId]
+    );
+
+    const generation = result.rows[0]?.build_cache_generation || 0;
+    return {
+      id: `gilgal-${projectId}-${generation}`,
+      generation,
+      // Only until a build of the new generation has succeeded
+      noCache: generation > 0 && !result.rows[0]?.built,
+    };
+  }
+
+  /**
+   * Workspace size and cache hits of the project's recent builds
+   * The workspace is reported as the latest build of the current generation left it
+   */
+  static async getStats(projectId: string, userId: string): Promise<BuildCacheStats> {
+    await ProjectService.getProject(projectId, userId);
+
+    const projectResult = await query<{
+      build_cache_generation: number;
+      build_cache_cleared_at: Date | null;
+    }>('SELECT build_cache_generation, build_cache_cleared_at FROM projects WHERE id = $1', [
+      projectId,
+    ]);
+    const buildsResult = await query<{ build_cache: DeploymentBuildCache }>(
+      `
+      SELECT build_cache
+      FROM deployments
+      WHERE project_id = $1 AND build_cache IS NOT NULL
+      ORDER BY created_at DESC
+      LIMIT $2
+      `,
+      [projectId, this.RECENT_BUILDS]
+    );
+
+    const builds = buildsResult.rows.map((row) => row.build_cache);
+    const layersCached = builds.reduce((total, build) => total + build.layersCached, 0);
+    const layersTotal = builds.reduce((total, build) => total + build.layersTotal, 0);
+    const project = projectResult.rows[0];
+    const workspaceBuild = builds.find(
+      (build) =>
+        build.generation === project.build_cache_generation &&
+        build.workspaceSizeBytes !== undefined
+    );
+
+    return {
+      generation: project.build_cache_generation,
+      clearedAt: project.build_cache_cleared_at || undefined,
+      workspace: {
+        present: workspaceBuild !== undefined,
+        sizeBytes: workspaceBuild?.workspaceSizeBytes || 0,
+      },
+      recentBuilds: {
+        count: builds.length,
+        workspaceHits: builds.filter((build) => build.workspaceHit).length,
+        layersCached,
+        layersTotal,
+        layerHitRate: layersTotal > 0 ? Math.round((layersCached / layersTotal) * 100) / 100 : null,
+      },
+    };
+  }
+
+  /**
+   * Clear the project's build cache; the next build clones the repository again and
+   * rebuilds every layer
+   */
+  static async clear(projectId: string, userId: string): Promise<BuildCacheStats> {
+    await ProjectService.getProject(projectId, userId);
+
+    await query(
+      `
+      UPDATE projects
+      SET build_cache_generation = build_cache_generation + 1,
+          build_cache_cleared_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      `,
+      [projectId]
+    );
+
+    console.log(`[BuildCache] Build cache cleared for project ${projectId}`);
+
+    return this.getStats(projectId, userId);
+  }
+}
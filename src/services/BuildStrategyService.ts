@@ -0,0 +1,950 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * What a strategy decided for one source tree
+ * Files are written into the build context before `docker build`; a repo file with the
+ * same name is never overwritten
+ */
+export interface BuildPlan {
+  strategy: string;
+  framework: string;
+  // Port the app listens on inside the container
+  port: number;
+  // Short note for the deployment log, e.g. "pnpm, Node 20"
+  details?: string;
+  files: Record<string, string>;
+}
+
+/**
+ * Overrides from the repository manifest; anything unset is inferred by the strategy
+ */
+export interface BuildSettings {
+  install?: string;
+  build?: string;
+  outputDir?: string;
+  start?: string;
+  port?: number;
+  // Prefix of the build's package manager cache mounts; none are used without it
+  cacheId?: string;
+}
+
+/**
+ * A way of turning a source tree into a Docker image
+ * The highest-priority strategy whose detect() matches is used
+ */
+export interface BuildStrategy {
+  name: string;
+  priority: number;
+  description: string;
+  detect(sourceDir: string): boolean;
+  plan(sourceDir: string, settings: BuildSettings): BuildPlan;
+}
+
+const DEFAULT_APP_PORT = 3000;
+const DEFAULT_NODE_VERSION = '22';
+
+const NODE_DOCKERIGNORE = `node_modules
+npm-debug.log
+.git
+.gitignore
+.env
+.env.local
+.DS_Store
+dist
+build
+.next
+out
+.turbo
+*.md
+.vscode
+.idea
+coverage
+.nyc_output
+*.log
+.cache`;
+
+function spaNginxConf(port: number): string {
+  return `server {
+    listen ${port} default_server;
+    listen [::]:${port} default_server;
+    server_name _;
+
+    root /usr/share/nginx/html;
+    index index.html index.htm;
+
+    # Client-side routing fallback
+    location / {
+        try_files $uri $uri/ /index.html;
+    }
+
+    # Cache static assets
+    location ~* \\.(js|css|png|jpg|jpeg|gif|ico|svg|woff|woff2|ttf|eot)$ {
+        expires 1y;
+        add_header Cache-Control "public, immutable";
+    }
+
+    # Don't cache HTML
+    location = /index.html {
+        add_header Cache-Control "no-cache, no-store, must-revalidate";
+    }
+
+    # Deny dotfiles
+    location ~ /\\. {
+        deny all;
+    }
+}`;
+}
+
+const PYTHON_DOCKERIGNORE = `.git
+.gitignore
+.env
+.venv
+venv
+__pycache__
+*.pyc
+.pytest_cache
+.mypy_cache
+*.md
+.vscode
+.idea`;
+
+const GO_DOCKERIGNORE = `.git
+.gitignore
+.env
+bin
+*.md
+.vscode
+.idea`;
+
+const RUBY_DOCKERIGNORE = `.git
+.gitignore
+.env
+log
+tmp
+vendor/bundle
+node_modules
+*.md
+.vscode
+.idea`;
+
+const PHP_DOCKERIGNORE = `.git
+.gitignore
+.env
+vendor
+node_modules
+storage/logs/*
+*.md
+.vscode
+.idea`;
+
+interface PackageJson {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+  engines?: { node?: string };
+  packageManager?: string;
+  main?: string;
+}
+
+function readPackageJson(sourceDir: string): PackageJson | null {
+  const packageJsonPath = path.join(sourceDir, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) {
+    return null;
+  }
+  try {
+    return JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function hasDependency(sourceDir: string, ...names: string[]): boolean {
+  const packageJson = readPackageJson(sourceDir);
+  const deps = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+  return names.some((name) => deps[name] !== undefined);
+}
+
+function hasFile(sourceDir: string, ...names: string[]): boolean {
+  return names.some((name) => fs.existsSync(path.join(sourceDir, name)));
+}
+
+function readText(sourceDir: string, ...names: string[]): string {
+  return names
+    .filter((name) => hasFile(sourceDir, name))
+    .map((name) => fs.readFileSync(path.join(sourceDir, name), 'utf-8'))
+    .join('\n');
+}
+
+/**
+ * Whether a package name appears as a whole word in a manifest
+ * (requirements.txt, pyproject.toml, Gemfile, composer.json)
+ */
+function mentionsPackage(manifest: string, name: string): boolean {
+  return new RegExp(
+    `(^|[^\\w.-])${name.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}([^\\w.-]|$)`,
+    'im'
+  ).test(manifest);
+}
+
+/**
+ * major.minor from a version file (.python-version, .ruby-version) or manifest field
+ */
+function minorVersion(text: string, fallback: string): string {
+  const match = text.match(/(\d+)\.(\d+)/);
+  return match ? `${match[1]}.${match[2]}` : fallback;
+}
+
+/**
+ * Python module path of the first entry file that exists (app/main.py -> app.main)
+ */
+function pythonEntryModule(sourceDir: string, candidates: string[]): string | undefined {
+  const entry = candidates.find((candidate) => hasFile(sourceDir, candidate));
+  return entry?.replace(/\.py$/, '').replace(/\//g, '.');
+}
+
+/**
+ * The Django project package: the top-level directory holding wsgi.py
+ */
+function djangoProjectModule(sourceDir: string): string | undefined {
+  return fs
+    .readdirSync(sourceDir, { withFileTypes: true })
+    .find((entry) => entry.isDirectory() && hasFile(sourceDir, path.join(entry.name, 'wsgi.py')))
+    ?.name;
+}
+
+/**
+ * The Go package to build: the repository root if it has a main package, else the
+ * first directory under cmd/
+ */
+function goMainPackage(sourceDir: string): string {
+  const rootHasMain = fs
+    .readdirSync(sourceDir)
+    .filter((name) => name.endsWith('.go') && !name.endsWith('_test.go'))
+    .some((name) => /^package\s+main\b/m.test(readText(sourceDir, name)));
+  if (rootHasMain || !hasFile(sourceDir, 'cmd')) {
+    return '.';
+  }
+  const command = fs
+    .readdirSync(path.join(sourceDir, 'cmd'), { withFileTypes: true })
+    .find((entry) => entry.isDirectory());
+  return command ? `./cmd/${command.name}` : '.';
+}
+
+/**
+ * How a Node project installs and runs its scripts, from its lockfile or the packageManager
+ * field in package.json
+ */
+interface NodeToolchain {
+  packageManager: 'npm' | 'yarn' | 'pnpm' | 'bun';
+  nodeVersion: string;
+  image: string;
+  // Dockerfile lines that copy package.json and the lockfile (plus the install setup)
+  copyManifests: string;
+  install: string;
+  installProduction: string;
+  // Where the package manager keeps downloaded packages
+  cacheDirs: string[];
+  run: (script: string) => string;
+  start: string[];
+}
+
+/**
+ * Node major version from .nvmrc / .node-version, else the engines.node range
+ * (the highest major it names; open-ended ranges get the default if it satisfies them)
+ */
+function nodeVersion(sourceDir: string, packageJson: PackageJson | null): string {
+  const pinned = readText(sourceDir, '.nvmrc', '.node-version').match(/^\s*v?(\d+)/);
+  if (pinned) {
+    return pinned[1];
+  }
+
+  const range = packageJson?.engines?.node;
+  if (typeof range !== 'string') {
+    return DEFAULT_NODE_VERSION;
+  }
+  const majors = range
+    .split('||')
+    .map((alternative) => {
+      const minimum = alternative.match(/>=?\s*v?(\d+)/);
+      if (minimum && !alternative.includes('<')) {
+        return Math.max(parseInt(minimum[1], 10), parseInt(DEFAULT_NODE_VERSION, 10));
+      }
+      const first = alternative.match(/(\d+)/);
+      return first ? parseInt(first[1], 10) : NaN;
+    })
+    .filter((major) => !isNaN(major));
+
+  return majors.length > 0 ? String(Math.max(...majors)) : DEFAULT_NODE_VERSION;
+}
+
+function nodeToolchain(sourceDir: string, packageJson: PackageJson | null): NodeToolchain {
+  const declared = packageJson?.packageManager?.match(/^(npm|yarn|pnpm|bun)@([^+\s]+)/);
+  let packageManager: NodeToolchain['packageManager'] = 'npm';
+  if (declared) {
+    packageManager = declared[1] as NodeToolchain['packageManager'];
+  } else if (hasFile(sourceDir, 'bun.lockb', 'bun.lock')) {
+    packageManager = 'bun';
+  } else if (hasFile(sourceDir, 'pnpm-lock.yaml')) {
+    packageManager = 'pnpm';
+  } else if (hasFile(sourceDir, 'yarn.lock')) {
+    packageManager = 'yarn';
+  }
+  const pinnedVersion = declared?.[2];
+
+  const lockfiles = {
+    npm: ['package-lock.json', 'npm-shrinkwrap.json'],
+    yarn: ['yarn.lock'],
+    pnpm: ['pnpm-lock.yaml'],
+    bun: ['bun.lockb', 'bun.lock'],
+  }[packageManager].filter((name) => hasFile(sourceDir, name));
+  const locked = lockfiles.length > 0;
+  const version = nodeVersion(sourceDir, packageJson);
+  let copyManifests = `COPY ${['package.json', ...lockfiles].join(' ')} ./`;
+
+  switch (packageManager) {
+    case 'yarn': {
+      // Yarn 2+ (berry) is run through corepack; the node image ships yarn 1
+      const berry =
+        hasFile(sourceDir, '.yarnrc.yml') || (!!pinnedVersion && !pinnedVersion.startsWith('1.'));
+      if (berry) {
+        copyManifests = [
+          'RUN corepack enable',
+          copyManifests,
+          ...['.yarnrc.yml', '.yarn']
+            .filter((name) => hasFile(sourceDir, name))
+            .map((name) => `COPY ${name} ./${name}`),
+        ].join('\n');
+      }
+      const install = berry
+        ? `yarn install${locked ? ' --immutable' : ''}`
+        : `yarn install${locked ? ' --frozen-lockfile' : ''}`;
+      return {
+        packageManager,
+        nodeVersion: version,
+        image: `node:${version}-alpine`,
+        copyManifests,
+        install,
+        // Yarn 2+ has no production-only install without a plugin
+        installProduction: berry ? install : `${install} --production`,
+        cacheDirs: [berry ? '/root/.yarn/berry/cache' : '/usr/local/share/.cache/yarn'],
+        run: (script) => `yarn run ${script}`,
+        start: ['yarn', 'start'],
+      };
+    }
+    case 'pnpm':
+      return {
+        packageManager,
+        nodeVersion: version,
+        image: `node:${version}-alpine`,
+        copyManifests: `RUN npm install -g pnpm@${pinnedVersion || 'latest'}\n${copyManifests}`,
+        install: `pnpm install${locked ? ' --frozen-lockfile' : ''}`,
+        installProduction: `pnpm install${locked ? ' --frozen-lockfile' : ''} --prod`,
+        cacheDirs: ['/root/.local/share/pnpm/store'],
+        run: (script) => `pnpm run ${script}`,
+        start: ['pnpm', 'start'],
+      };
+    case 'bun':
+      return {
+        packageManager,
+        nodeVersion: version,
+        image: `oven/bun:${pinnedVersion || '1'}-alpine`,
+        copyManifests,
+        install: `bun install${locked ? ' --frozen-lockfile' : ''}`,
+        installProduction: `bun install${locked ? ' --frozen-lockfile' : ''} --production`,
+        cacheDirs: ['/root/.bun/install/cache'],
+        run: (script) => `bun run ${script}`,
+        start: ['bun', 'run', 'start'],
+      };
+    default:
+      // npm ci needs a lockfile
+      return {
+        packageManager: 'npm',
+        nodeVersion: version,
+        image: `node:${version}-alpine`,
+        copyManifests,
+        install: locked ? 'npm ci' : 'npm install',
+        installProduction: locked ? 'npm ci --omit=dev' : 'npm install --omit=dev',
+        cacheDirs: ['/root/.npm'],
+        run: (script) => `npm run ${script}`,
+        start: ['npm', 'start'],
+      };
+  }
+}
+
+function describeToolchain(toolchain: NodeToolchain): string {
+  return toolchain.packageManager === 'bun'
+    ? 'bun'
+    : `${toolchain.packageManager}, Node ${toolchain.nodeVersion}`;
+}
+
+/**
+ * A relative output path read from a config file, or undefined if it looks unsafe
+ */
+function safeOutputDir(value?: string): string | undefined {
+  const dir = value?.replace(/^\.\//, '').replace(/\/+$/, '');
+  return dir && /^[A-Za-z0-9._/-]+$/.test(dir) && !dir.split('/').includes('..') ? dir : undefined;
+}
+
+function configuredOutputDir(sourceDir: string, files: string[], key: string): string | undefined {
+  const match = readText(sourceDir, ...files).match(
+    new RegExp(`\\b${key}\\s*:\\s*['"\`]([^'"\`]+)['"\`]`)
+  );
+  return safeOutputDir(match?.[1]);
+}
+
+/**
+ * Where `ng build` writes the browser bundle: outputPath of the default (or first
+ * application) project; the application builder adds a browser/ subdirectory
+ */
+function angularOutputDir(sourceDir: string): string {
+  try {
+    const angular = JSON.parse(readText(sourceDir, 'angular.json'));
+    const projects = angular.projects || {};
+    const name =
+      angular.defaultProject ||
+      Object.keys(projects).find((key) => projects[key].projectType === 'application') ||
+      Object.keys(projects)[0];
+    const build = projects[name]?.architect?.build;
+    const outputPath = build?.options?.outputPath;
+    const base = typeof outputPath === 'string' ? outputPath : outputPath?.base || `dist/${name}`;
+    const browser = typeof outputPath === 'object' ? (outputPath.browser ?? 'browser') : 'browser';
+    const dir = /:application$/.test(build?.builder || '') ? path.posix.join(base, browser) : base;
+    return safeOutputDir(dir) || 'dist';
+  } catch {
+    return 'dist';
+  }
+}
+
+/**
+ * Front-end projects that build to static files, with the directory the build writes to
+ */
+function staticSiteBuild(
+  sourceDir: string,
+  packageJson: PackageJson | null
+): { framework: string; outputDir: string } | null {
+  const deps = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+  const has = (name: string) => deps[name] !== undefined;
+  const viteConfigs = ['ts', 'mts', 'js', 'mjs', 'cjs'].map((ext) => `vite.config.${ext}`);
+
+  if (has('@angular/core')) {
+    return { framework: 'angular', outputDir: angularOutputDir(sourceDir) };
+  }
+  if (has('@sveltejs/kit')) {
+    // Only adapter-static produces a static site; other adapters build a server
+    return has('@sveltejs/adapter-static')
+      ? {
+          framework: 'svelte',
+          outputDir: configuredOutputDir(sourceDir, ['svelte.config.js'], 'pages') || 'build',
+        }
+      : null;
+  }
+  if (has('react-scripts')) {
+    return { framework: 'react', outputDir: 'build' };
+  }
+  if (has('@vue/cli-service')) {
+    return {
+      framework: 'vue',
+      outputDir: configuredOutputDir(sourceDir, ['vue.config.js'], 'outputDir') || 'dist',
+    };
+  }
+  if (has('vite') || has('react') || has('react-dom') || has('vue') || has('svelte')) {
+    const framework =
+      has('react') || has('react-dom')
+        ? 'react'
+        : has('vue')
+          ? 'vue'
+          : has('svelte')
+            ? 'svelte'
+            : 'vite';
+    return {
+      framework,
+      outputDir: configuredOutputDir(sourceDir, viteConfigs, 'outDir') || 'dist',
+    };
+  }
+  return null;
+}
+
+function cmd(args: string[]): string {
+  return `CMD ${JSON.stringify(args)}`;
+}
+
+function runLine(command?: string): string {
+  return command ? `\nRUN ${command}` : '';
+}
+
+/**
+ * RUN flags that mount cache directories kept between a project's builds
+ * Mount ids start with the build's cache id, so projects never share a cache
+ */
+function cacheMounts(settings: BuildSettings, targets: string[]): string {
+  if (!settings.cacheId) {
+    return '';
+  }
+  return targets
+    .map((target) => {
+      const id = `${settings.cacheId}${target.replace(/[^A-Za-z0-9]+/g, '-')}`;
+      return `--mount=type=cache,id=${id},target=${target} `;
+    })
+    .join('');
+}
+
+/**
+ * The manifest's start command (run through sh) or the strategy's default
+ */
+function startLine(settings: BuildSettings, defaultArgs: string[]): string {
+  return cmd(settings.start ? ['/bin/sh', '-c', settings.start] : defaultArgs);
+}
+
+/**
+ * First port of the last EXPOSE instruction in a Dockerfile
+ */
+function exposedPort(dockerfile: string): number | undefined {
+  const exposes = dockerfile.match(/^\s*EXPOSE\s+(\d+)/gim);
+  if (!exposes) {
+    return undefined;
+  }
+  return parseInt(exposes[exposes.length - 1].replace(/^\s*EXPOSE\s+/i, ''), 10);
+}
+
+const STRATEGIES: BuildStrategy[] = [
+  {
+    name: 'dockerfile',
+    priority: 100,
+    description: "The repository's own Dockerfile",
+    detect: (sourceDir) => fs.existsSync(path.join(sourceDir, 'Dockerfile')),
+    plan: (sourceDir, settings) => ({
+      strategy: 'dockerfile',
+      framework: 'docker',
+      port:
+        settings.port ||
+        exposedPort(fs.readFileSync(path.join(sourceDir, 'Dockerfile'), 'utf-8')) ||
+        DEFAULT_APP_PORT,
+      files: {},
+    }),
+  },
+  {
+    name: 'python',
+    priority: 40,
+    description: 'Python app (Django, FastAPI, Flask) from requirements.txt or pyproject.toml',
+    detect: (sourceDir) => hasFile(sourceDir, 'requirements.txt', 'pyproject.toml'),
+    plan: (sourceDir, settings) => {
+      const manifest = readText(sourceDir, 'requirements.txt', 'pyproject.toml');
+      const version = minorVersion(readText(sourceDir, '.python-version'), '3.12');
+      const port = settings.port || 8000;
+      const bind = `0.0.0.0:${port}`;
+
+      let framework = 'python';
+      let server: string | undefined;
+      let start = ['python', '-m', pythonEntryModule(sourceDir, ['main.py', 'app.py']) || 'main'];
+
+      if (mentionsPackage(manifest, 'django') || hasFile(sourceDir, 'manage.py')) {
+        framework = 'django';
+        const project = djangoProjectModule(sourceDir);
+        server = 'gunicorn';
+        start = project
+          ? ['gunicorn', '--bind', bind, `${project}.wsgi:application`]
+          : ['python', 'manage.py', 'runserver', bind];
+      } else if (mentionsPackage(manifest, 'fastapi')) {
+        framework = 'fastapi';
+        server = 'uvicorn';
+        const entry =
+          pythonEntryModule(sourceDir, ['main.py', 'app.py', 'app/main.py', 'src/main.py']) ||
+          'main';
+        start = ['uvicorn', `${entry}:app`, '--host', '0.0.0.0', '--port', String(port)];
+      } else if (mentionsPackage(manifest, 'flask')) {
+        framework = 'flask';
+        server = 'gunicorn';
+        const entry =
+          pythonEntryModule(sourceDir, ['app.py', 'wsgi.py', 'main.py', 'app/__init__.py']) ||
+          'app';
+        start = ['gunicorn', '--bind', bind, `${entry.replace(/\.__init__$/, '')}:app`];
+      }
+
+      // pip's download cache is only kept when it can be mounted between builds
+      const mounts = cacheMounts(settings, ['/root/.cache/pip']);
+      const pip = mounts ? `${mounts}pip install` : 'pip install --no-cache-dir';
+      // requirements.txt is installed before the rest of the source so the layer is cached
+      const install =
+        hasFile(sourceDir, 'requirements.txt') && !settings.install
+          ? `COPY requirements.txt ./\nRUN ${pip} -r requirements.txt\nCOPY . .`
+          : `COPY . .\nRUN ${settings.install ? `${mounts}${settings.install}` : `${pip} .`}`;
+      const installServer =
+        server && !settings.start && !mentionsPackage(manifest, server)
+          ? `\nRUN ${pip} ${server}`
+          : '';
+
+      return {
+        strategy: 'python',
+        framework,
+        port,
+        files: {
+          '.dockerignore': PYTHON_DOCKERIGNORE,
+          Dockerfile: `
+FROM python:${version}-slim
+ENV PYTHONDONTWRITEBYTECODE=1 PYTHONUNBUFFERED=1 PORT=${port}
+WORKDIR /app
+${install}${installServer}${runLine(settings.build)}
+RUN useradd --create-home app
+USER app
+EXPOSE ${port}
+${startLine(settings, start)}
+          `.trim(),
+        },
+      };
+    },
+  },
+  {
+    name: 'go',
+    priority: 40,
+    description: 'Go module compiled to a static binary',
+    detect: (sourceDir) => hasFile(sourceDir, 'go.mod'),
+    plan: (sourceDir, settings) => {
+      const goDirective = readText(sourceDir, 'go.mod').match(/^go\s+(\d+\.\d+)/m);
+      const version = goDirective ? goDirective[1] : '1.22';
+      const port = settings.port || 8080;
+      const mounts = cacheMounts(settings, ['/go/pkg/mod', '/root/.cache/go-build']);
+      // A custom build command must also write the binary to /out/app
+      const build =
+        settings.build ||
+        `CGO_ENABLED=0 go build -ldflags="-s -w" -o /out/app ${goMainPackage(sourceDir)}`;
+
+      return {
+        strategy: 'go',
+        framework: 'go',
+        port,
+        files: {
+          '.dockerignore': GO_DOCKERIGNORE,
+          Dockerfile: `
+FROM golang:${version}-alpine AS builder
+WORKDIR /src
+COPY go.mod go.sum* ./
+RUN ${mounts}${settings.install || 'go mod download'}
+COPY . .
+RUN ${mounts}${build}
+
+FROM alpine:3.20
+RUN apk add --no-cache ca-certificates && adduser -D -H app
+COPY --from=builder /out/app /usr/local/bin/app
+USER app
+ENV PORT=${port}
+EXPOSE ${port}
+${startLine(settings, ['app'])}
+          `.trim(),
+        },
+      };
+    },
+  },
+  {
+    name: 'ruby',
+    priority: 40,
+    description: 'Ruby app (Rails or Rack) installed with Bundler',
+    detect: (sourceDir) => hasFile(sourceDir, 'Gemfile'),
+    plan: (sourceDir, settings) => {
+      const gemfile = readText(sourceDir, 'Gemfile');
+      const version = minorVersion(readText(sourceDir, '.ruby-version'), '3.3');
+      const rails = mentionsPackage(gemfile, 'rails');
+
+      let port = settings.port || 3000;
+      let start = ['bundle', 'exec', 'rails', 'server', '-b', '0.0.0.0', '-p', String(port)];
+      let build = settings.build;
+      let railsEnv = '';
+      if (rails) {
+        railsEnv = '\nENV RAILS_ENV=production RAILS_LOG_TO_STDOUT=1 RAILS_SERVE_STATIC_FILES=1';
+        if (!build && hasFile(sourceDir, 'app/assets', 'app/javascript')) {
+          build = 'SECRET_KEY_BASE_DUMMY=1 bundle exec rails assets:precompile';
+        }
+      } else if (hasFile(sourceDir, 'config.ru')) {
+        port = settings.port || 9292;
+        start = ['bundle', 'exec', 'rackup', '--host', '0.0.0.0', '--port', String(port)];
+      } else {
+        port = settings.port || 4567;
+        const entry = ['app.rb', 'main.rb', 'server.rb'].find((name) => hasFile(sourceDir, name));
+        start = ['bundle', 'exec', 'ruby', entry || 'app.rb'];
+      }
+
+      return {
+        strategy: 'ruby',
+        framework: rails ? 'rails' : 'ruby',
+        port,
+        files: {
+          '.dockerignore': RUBY_DOCKERIGNORE,
+          Dockerfile: `
+FROM ruby:${version}-slim
+RUN apt-get update && apt-get install -y --no-install-recommends build-essential libpq-dev libyaml-dev \\
+    && rm -rf /var/lib/apt/lists/*
+ENV BUNDLE_WITHOUT=development:test PORT=${port}${railsEnv}
+WORKDIR /app
+COPY Gemfile Gemfile.lock* ./
+RUN ${settings.install || 'bundle install'}
+COPY . .${runLine(build)}
+RUN useradd --create-home app && chown -R app /app
+USER app
+EXPOSE ${port}
+${startLine(settings, start)}
+          `.trim(),
+        },
+      };
+    },
+  },
+  {
+    name: 'php',
+    priority: 40,
+    description: 'PHP app (Laravel or plain) served by Apache, dependencies from Composer',
+    detect: (sourceDir) => hasFile(sourceDir, 'composer.json'),
+    plan: (sourceDir, settings) => {
+      let require: Record<string, string> = {};
+      try {
+        require = JSON.parse(readText(sourceDir, 'composer.json')).require || {};
+      } catch {
+        // Composer reports an invalid composer.json during the build
+      }
+      const laravel = require['laravel/framework'] !== undefined;
+      const version = minorVersion(require.php || '', '8.3');
+      const port = settings.port || 80;
+      const documentRoot =
+        laravel || hasFile(sourceDir, 'public')
+          ? `
+ENV APACHE_DOCUMENT_ROOT=/var/www/html/public
+RUN sed -ri -e 's!/var/www/html!\${APACHE_DOCUMENT_ROOT}!g' /etc/apache2/sites-available/*.conf \\
+    && sed -ri -e 's!/var/www/!\${APACHE_DOCUMENT_ROOT}!g' /etc/apache2/apache2.conf /etc/apache2/conf-available/*.conf`
+          : '';
+      const listen =
+        port === 80
+          ? ''
+          : `
+RUN sed -ri -e 's!Listen 80$!Listen ${port}!' /etc/apache2/ports.conf \\
+    && sed -ri -e 's!:80>!:${port}>!' /etc/apache2/sites-available/000-default.conf`;
+      const writable = laravel
+        ? 'RUN chown -R www-data:www-data storage bootstrap/cache'
+        : 'RUN chown -R www-data:www-data /var/www/html';
+      const install =
+        settings.install ||
+        'composer install --no-dev --no-scripts --no-autoloader --prefer-dist --ignore-platform-reqs';
+
+      return {
+        strategy: 'php',
+        framework: laravel ? 'laravel' : 'php',
+        port,
+        files: {
+          '.dockerignore': PHP_DOCKERIGNORE,
+          Dockerfile: `
+FROM composer:2 AS vendor
+WORKDIR /app
+COPY composer.json composer.lock* ./
+RUN ${cacheMounts(settings, ['/tmp/cache'])}${install}
+COPY . .
+RUN ${settings.build || 'composer dump-autoload --optimize --no-dev'}
+
+FROM php:${version}-apache
+RUN apt-get update && apt-get install -y --no-install-recommends libpq-dev \\
+    && docker-php-ext-install pdo_mysql pdo_pgsql \\
+    && a2enmod rewrite \\
+    && rm -rf /var/lib/apt/lists/*${documentRoot}${listen}
+WORKDIR /var/www/html
+COPY --from=vendor /app /var/www/html
+${writable}
+EXPOSE ${port}${settings.start ? `\n${startLine(settings, [])}` : ''}
+          `.trim(),
+        },
+      };
+    },
+  },
+  {
+    name: 'next',
+    priority: 30,
+    description: 'Next.js app (standalone output when next.config enables it)',
+    detect: (sourceDir) => hasDependency(sourceDir, 'next'),
+    plan: (sourceDir, settings) => {
+      const packageJson = readPackageJson(sourceDir);
+      const toolchain = nodeToolchain(sourceDir, packageJson);
+      const port = settings.port || 3000;
+      const nextConfigs = ['js', 'mjs', 'ts', 'cjs'].map((ext) => `next.config.${ext}`);
+      const standalone = /output\s*:\s*['"`]standalone['"`]/.test(
+        readText(sourceDir, ...nextConfigs)
+      );
+
+      // Next.js keeps its incremental build cache in .next/cache
+      const buildCache = cacheMounts(settings, ['/app/.next/cache']);
+
+      // Standalone output bundles its own server and node_modules; otherwise `next start`
+      // runs from the full build
+      const runtime = standalone
+        ? `
+FROM ${toolchain.image}
+WORKDIR /app
+ENV NODE_ENV=production
+COPY --from=builder /app/public ./public
+COPY --from=builder /app/.next/standalone ./
+COPY --from=builder /app/.next/static ./.next/static
+USER ${toolchain.packageManager === 'bun' ? 'bun' : 'node'}
+ENV PORT=${port} HOSTNAME=0.0.0.0
+EXPOSE ${port}
+${startLine(settings, [toolchain.packageManager === 'bun' ? 'bun' : 'node', 'server.js'])}`
+        : `
+FROM ${toolchain.image}
+WORKDIR /app
+ENV NODE_ENV=production
+COPY --from=builder /app ./
+ENV PORT=${port}
+EXPOSE ${port}
+${startLine(settings, toolchain.start)}`;
+
+      return {
+        strategy: 'next',
+        framework: 'next',
+        port,
+        details: `${describeToolchain(toolchain)}, ${standalone ? 'standalone' : 'next start'}`,
+        files: {
+          '.dockerignore': NODE_DOCKERIGNORE,
+          Dockerfile: `
+FROM ${toolchain.image} AS builder
+WORKDIR /app
+${toolchain.copyManifests}
+RUN ${cacheMounts(settings, toolchain.cacheDirs)}${settings.install || toolchain.install}
+COPY . .
+RUN ${buildCache}mkdir -p public && ${settings.build || toolchain.run('build')}
+${runtime}
+          `.trim(),
+        },
+      };
+    },
+  },
+  {
+    name: 'static-site',
+    priority: 20,
+    description: 'Front-end app (Vite, CRA, Angular, Vue, Svelte) built and served by nginx',
+    detect: (sourceDir) => staticSiteBuild(sourceDir, readPackageJson(sourceDir)) !== null,
+    plan: (sourceDir, settings) => {
+      const packageJson = readPackageJson(sourceDir);
+      const toolchain = nodeToolchain(sourceDir, packageJson);
+      const site = staticSiteBuild(sourceDir, packageJson) || {
+        framework: 'react',
+        outputDir: 'dist',
+      };
+      const outputDir = settings.outputDir || site.outputDir;
+      const port = settings.port || 80;
+      // A repository nginx.conf is used as-is: a full config replaces nginx.conf, a server
+      // block replaces the default site
+      const nginxTarget = /^\s*http\s*\{/m.test(readText(sourceDir, 'nginx.conf'))
+        ? '/etc/nginx/nginx.conf'
+        : '/etc/nginx/conf.d/default.conf';
+
+      return {
+        strategy: 'static-site',
+        framework: site.framework,
+        port,
+        details: `${describeToolchain(toolchain)}, serving ${outputDir}/`,
+        files: {
+          '.dockerignore': NODE_DOCKERIGNORE,
+          'nginx.conf': spaNginxConf(port),
+          Dockerfile: `
+FROM ${toolchain.image} AS builder
+WORKDIR /app
+${toolchain.copyManifests}
+RUN ${cacheMounts(settings, toolchain.cacheDirs)}${settings.install || toolchain.install}
+COPY . .
+RUN ${settings.build || toolchain.run('build')}
+
+FROM nginx:alpine
+COPY --from=builder /app/${outputDir} /usr/share/nginx/html
+COPY nginx.conf ${nginxTarget}
+EXPOSE ${port}
+CMD ["nginx", "-g", "daemon off;"]
+          `.trim(),
+        },
+      };
+    },
+  },
+  {
+    name: 'node',
+    priority: 0,
+    description: 'Node.js app started with its start script',
+    // Fallback: also used when there is no package.json at all
+    detect: () => true,
+    plan: (sourceDir, settings) => {
+      const packageJson = readPackageJson(sourceDir);
+      const toolchain = nodeToolchain(sourceDir, packageJson);
+      const express = hasDependency(sourceDir, 'express');
+      const port = settings.port || DEFAULT_APP_PORT;
+
+      // A build script (e.g. TypeScript) needs dev dependencies installed
+      const build = settings.build || (packageJson?.scripts?.build ? toolchain.run('build') : '');
+      const install = settings.install || (build ? toolchain.install : toolchain.installProduction);
+      const start =
+        !packageJson?.scripts?.start && packageJson?.main
+          ? [toolchain.packageManager === 'bun' ? 'bun' : 'node', packageJson.main]
+          : toolchain.start;
+
+      return {
+        strategy: 'node',
+        framework: express ? 'express' : 'node',
+        port,
+        details: describeToolchain(toolchain),
+        files: {
+          '.dockerignore': NODE_DOCKERIGNORE,
+          Dockerfile: `
+FROM ${toolchain.image}
+WORKDIR /app
+${toolchain.copyManifests}
+RUN ${cacheMounts(settings, toolchain.cacheDirs)}${install}
+COPY . .${runLine(build)}
+${express && toolchain.packageManager !== 'bun' ? 'USER node\n' : ''}ENV PORT=${port}
+EXPOSE ${port}
+${startLine(settings, start)}
+          `.trim(),
+        },
+      };
+    },
+  },
+];
+
+/**
+ * Build Strategy Service
+ * Registry of the ways a repository can be built. A repository that ships a Dockerfile is
+ * built with it as-is; otherwise a Dockerfile is generated for the detected stack
+ */
+export class BuildStrategyService {
+  /**
+   * Add a strategy; one with the same name is replaced
+   */
+  static register(strategy: BuildStrategy): void {
+    const index = STRATEGIES.findIndex((existing) => existing.name === strategy.name);
+    if (index >= 0) {
+      STRATEGIES[index] = strategy;
+    } else {
+      STRATEGIES.push(strategy);
+    }
+  }
+
+  /**
+   * Registered strategies, highest priority first
+   */
+  static list(): BuildStrategy[] {
+    return [...STRATEGIES].sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Pick the strategy for a source tree and plan the build
+   */
+  static select(sourceDir: string, settings: BuildSettings = {}): BuildPlan {
+    const strategy = this.list().find((candidate) => candidate.detect(sourceDir));
+    if (!strategy) {
+      throw new Error('No build strategy matches this repository');
+    }
+    return strategy.plan(sourceDir, settings);
+  }
+
+  /**
+   * Write a plan's generated files into the build context, keeping any the repository
+   * already provides. Returns the names of the files written
+   */
+  static writeFiles(plan: BuildPlan, contextDir: string): string[] {
+    return Object.entries(plan.files)
+      .filter(([name]) => !fs.existsSync(path.join(contextDir, name)))
+      .map(([name, contents]) => {
+        fs.writeFileSync(path.join(contextDir, name), contents);
+        return name;
+      });
+  }
+}
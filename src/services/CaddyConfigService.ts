@@ -0,0 +1,116 @@
+import config from '../config';
+import { ProxyRoute } from '../types';
+import { ProxyService } from './ProxyService';
+
+type CaddyRoute = Record<string, unknown>;
+
+/**
+ * Caddy Config Service
+ * Caddy proxy provider: builds a full JSON config and loads it through the admin API
+ * Caddy's own automatic HTTPS is disabled so certificates come from the same places as
+ * with nginx (the platform wildcard and CertificateService's per-domain certificates)
+ */
+export class CaddyConfigService {
+  /**
+   * Generate the Caddy JSON config for the given routes
+   */
+  static generateCaddyConfig(routes: ProxyRoute[]): Record<string, unknown> {
+    const httpsRoutes: CaddyRoute[] = [
+      ...ProxyService.PLATFORM_ROUTES.map((platform) =>
+        this.proxyRoute(platform.hosts, `localhost:${platform.port}`)
+      ),
+      ...routes.map((route) => this.proxyRoute([route.hostname], `localhost:${route.port}`)),
+      ...routes
+        .filter((route) => route.domain && route.certificate_path)
+        .map((route) => this.proxyRoute([route.domain as string], `localhost:${route.port}`)),
+    ];
+
+    // Custom domains answer ACME challenges via the API and are served over plain HTTP
+    // until their certificate is issued; everything else on port 80 redirects to HTTPS
+    const customDomainRoutes = routes.filter((route) => route.domain);
+    const httpRoutes: CaddyRoute[] = [
+      ...customDomainRoutes.map((route) => ({
+        match: [{ host: [route.domain], path: ['/.well-known/acme-challenge/*'] }],
+        handle: [{ handler: 'reverse_proxy', upstreams: [{ dial: `localhost:${config.port}` }] }],
+        terminal: true,
+      })),
+      ...customDomainRoutes
+        .filter((route) => !route.certificate_path)
+        .map((route) => this.proxyRoute([route.domain as string], `localhost:${route.port}`)),
+      {
+        handle: [
+          {
+            handler: 'static_response',
+            status_code: 301,
+            headers: { Location: ['https://{http.request.host}{http.request.uri}'] },
+          },
+        ],
+      },
+    ];
+
+    const certificates = [
+      { certificate: ProxyService.WILDCARD_CERT_PATH, key: ProxyService.WILDCARD_KEY_PATH },
+      ...routes
+        .filter((route) => route.certificate_path && route.certificate_key_path)
+        .map((route) => ({
+          certificate: route.certificate_path,
+          key: route.certificate_key_path,
+        })),
+    ];
+
+    return {
+      apps: {
+        http: {
+          servers: {
+            gilgal_https: {
+              listen: [':443'],
+              routes: httpsRoutes,
+              tls_connection_policies: [{}],
+              automatic_https: { disable: true },
+            },
+            gilgal_http: {
+              listen: [':80'],
+              routes: httpRoutes,
+              automatic_https: { disable: true },
+            },
+          },
+        },
+        tls: {
+          certificates: { load_files: certificates },
+        },
+      },
+    };
+  }
+
+  /**
+   * Replace Caddy's running config via POST /load on the admin API
+   * Caddy validates the config and keeps the previous one if loading fails
+   */
+  static async applyCaddyConfig(routes: ProxyRoute[]): Promise<void> {
+    const caddyConfig = this.generateCaddyConfig(routes);
+
+    const response = await fetch(`${config.proxy.caddyAdminUrl}/load`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(caddyConfig),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Caddy rejected config (${response.status}): ${body}`);
+    }
+
+    console.log(`[CaddyConfig] Loaded config with ${routes.length} route(s)`);
+  }
+
+  /**
+   * Host-matched reverse proxy route
+   */
+  private static proxyRoute(hosts: string[], dial: string): CaddyRoute {
+    return {
+      match: [{ host: hosts }],
+      handle: [{ handler: 'reverse_proxy', upstreams: [{ dial }] }],
+      terminal: true,
+    };
+  }
+}
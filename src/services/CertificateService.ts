@@ -0,0 +1,254 @@
+import * as acme from 'acme-client';
+import fs from 'fs';
+import path from 'path';
+import config from '../config';
+import { query } from '../database';
+import { Certificate } from '../types';
+import { CERTIFICATE_STATUS, DOMAIN_STATUS } from '../constants';
+import { ProxyService } from './ProxyService';
+
+const CERTIFICATE_COLUMNS = `
+  id,
+  domain,
+  status,
+  cert_path as "certPath",
+  key_path as "keyPath",
+  issued_at as "issuedAt",
+  expires_at as "expiresAt",
+  attempts,
+  next_attempt_at as "nextAttemptAt",
+  last_error as "lastError",
+  created_at as "createdAt",
+  updated_at as "updatedAt"
+`;
+
+/**
+ * Certificate Service
+ * Issues and renews per-domain TLS certificates over ACME (HTTP-01)
+ * The worker runs issuance; challenge responses are stored in acme_challenges so the
+ * API can answer /.well-known/acme-challenge requests routed to it by the proxy
+ */
+export class CertificateService {
+  // How long a worker holds a certificate while issuing it before another may retry
+  private static readonly ISSUE_LEASE_MINUTES = 10;
+  private static readonly MAX_BACKOFF_MINUTES = 24 * 60;
+
+  private static client: acme.Client | null = null;
+
+  /**
+   * Queue issuance for a domain (or an immediate retry if it already has a record)
+   */
+  static async requestCertificate(domain: string): Promise<void> {
+    await query(
+      `
+      INSERT INTO certificates (domain, status)
+      VALUES ($1, $2)
+      ON CONFLICT (domain) DO UPDATE
+      SET next_attempt_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      `,
+      [domain, CERTIFICATE_STATUS.PENDING]
+    );
+
+    console.log(`[Certificates] Certificate requested for ${domain}`);
+  }
+
+  /**
+   * Get the certificate record for a domain, if any
+   */
+  static async getCertificate(domain: string): Promise<Certificate | null> {
+    const result = await query<Certificate>(
+      `SELECT ${CERTIFICATE_COLUMNS} FROM certificates WHERE domain = $1`,
+      [domain]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Look up the key authorization for an HTTP-01 challenge token
+   */
+  static async getChallengeResponse(token: string): Promise<string | null> {
+    const result = await query<{ key_authorization: string }>(
+      'SELECT key_authorization FROM acme_challenges WHERE token = $1',
+      [token]
+    );
+
+    return result.rows[0]?.key_authorization || null;
+  }
+
+  /**
+   * Issue pending certificates and renew ones close to expiry
+   * Reapplies the proxy config once if anything new was installed
+   */
+  static async processDueCertificates(): Promise<void> {
+    let installed = 0;
+
+    let certificate = await this.claimNextDue();
+    while (certificate) {
+      if (await this.issue(certificate)) {
+        installed++;
+      }
+      certificate = await this.claimNextDue();
+    }
+
+    if (installed > 0) {
+      await ProxyService.applyConfig();
+    }
+  }
+
+  /**
+   * Claim one certificate that needs issuing or renewing
+   * Only domains still verified on a live environment are considered
+   */
+  private static async claimNextDue(): Promise<Certificate | null> {
+    const result = await query<Certificate>(
+      `
+      UPDATE certificates
+      SET attempts = attempts + 1,
+          next_attempt_at = CURRENT_TIMESTAMP + make_interval(mins => $1),
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = (
+        SELECT c.id FROM certificates c
+        WHERE c.next_attempt_at <= CURRENT_TIMESTAMP
+          AND (c.status <> $2 OR c.expires_at <= CURRENT_TIMESTAMP + make_interval(days => $3))
+          AND EXISTS (
+            SELECT 1 FROM environments e
+            WHERE e.domain = c.domain AND e.domain_status = $4 AND e.deleted_at IS NULL
+          )
+        ORDER BY c.next_attempt_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING ${CERTIFICATE_COLUMNS}
+      `,
+      [
+        this.ISSUE_LEASE_MINUTES,
+        CERTIFICATE_STATUS.ISSUED,
+        config.acme.renewBeforeDays,
+        DOMAIN_STATUS.VERIFIED,
+      ]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Run an ACME order for the domain and install the result
+   * Returns whether a new certificate was written
+   */
+  private static async issue(certificate: Certificate): Promise<boolean> {
+    const { domain } = certificate;
+    const renewing = certificate.status === CERTIFICATE_STATUS.ISSUED;
+    console.log(`[Certificates] ${renewing ? 'Renewing' : 'Issuing'} certificate for ${domain}`);
+
+    try {
+      const client = await this.getClient();
+      const [key, csr] = await acme.crypto.createCsr({ commonName: domain });
+
+      const cert = await client.auto({
+        csr,
+        email: config.acme.email || undefined,
+        termsOfServiceAgreed: true,
+        challengePriority: ['http-01'],
+        skipChallengeVerification: config.acme.skipChallengeVerification,
+        challengeCreateFn: async (authz, challenge, keyAuthorization) => {
+          await query(
+            `
+            INSERT INTO acme_challenges (token, key_authorization, domain)
+            VALUES ($1, $2, $3)
+            ON CONFLICT (token) DO UPDATE SET key_authorization = EXCLUDED.key_authorization
+            `,
+            [challenge.token, keyAuthorization, authz.identifier.value]
+          );
+        },
+        challengeRemoveFn: async (authz, challenge) => {
+          await query('DELETE FROM acme_challenges WHERE token = $1', [challenge.token]);
+        },
+      });
+
+      const domainDir = path.join(config.acme.certDir, domain);
+      const certPath = path.join(domainDir, 'fullchain.pem');
+      const keyPath = path.join(domainDir, 'privkey.pem');
+
+      fs.mkdirSync(domainDir, { recursive: true, mode: 0o700 });
+      this.writeFileAtomic(keyPath, key, 0o600);
+      this.writeFileAtomic(certPath, cert, 0o644);
+
+      const info = acme.crypto.readCertificateInfo(cert);
+
+      await query(
+        `
+        UPDATE certificates
+        SET status = $1, cert_path = $2, key_path = $3, issued_at = CURRENT_TIMESTAMP,
+            expires_at = $4, attempts = 0, next_attempt_at = CURRENT_TIMESTAMP,
+            last_error = NULL, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $5
+        `,
+        [CERTIFICATE_STATUS.ISSUED, certPath, keyPath, info.notAfter, certificate.id]
+      );
+
+      console.log(
+        `[Certificates] Installed certificate for ${domain} (expires ${info.notAfter.toISOString()})`
+      );
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      // A failed renewal keeps serving the current certificate until it expires
+      await query(
+        `
+        UPDATE certificates
+        SET status = CASE WHEN cert_path IS NULL THEN $1 ELSE status END,
+            last_error = $2,
+            next_attempt_at = CURRENT_TIMESTAMP
+              + make_interval(mins => LEAST($3 * power(2, attempts - 1), $4)),
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $5
+        `,
+        [
+          CERTIFICATE_STATUS.FAILED,
+          errorMessage,
+          config.acme.retryBackoffMinutes,
+          this.MAX_BACKOFF_MINUTES,
+          certificate.id,
+        ]
+      );
+
+      console.error(`[Certificates] Failed to issue certificate for ${domain}: ${errorMessage}`);
+      return false;
+    }
+  }
+
+  /**
+   * Create the ACME client, generating and persisting an account key on first use
+   */
+  private static async getClient(): Promise<acme.Client> {
+    if (this.client) {
+      return this.client;
+    }
+
+    const accountKeyPath = path.join(config.acme.certDir, 'account.key');
+    let accountKey: Buffer;
+
+    if (fs.existsSync(accountKeyPath)) {
+      accountKey = fs.readFileSync(accountKeyPath);
+    } else {
+      fs.mkdirSync(config.acme.certDir, { recursive: true, mode: 0o700 });
+      accountKey = await acme.crypto.createPrivateKey();
+      this.writeFileAtomic(accountKeyPath, accountKey, 0o600);
+      console.log(`[Certificates] Created ACME account key at ${accountKeyPath}`);
+    }
+
+    this.client = new acme.Client({ directoryUrl: config.acme.directoryUrl, accountKey });
+    return this.client;
+  }
+
+  /**
+   * Write a file via rename so the proxy never reads a partially written certificate
+   */
+  private static writeFileAtomic(filePath: string, contents: Buffer | string, mode: number): void {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, contents, { mode });
+    fs.renameSync(tempPath, filePath);
+  }
+}
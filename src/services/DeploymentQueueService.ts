@@ -0,0 +1,270 @@
+import config from '../config';
+import { query } from '../database';
+import { DeploymentJob } from '../types';
+import { DEPLOYMENT_JOB_STATUS, DEPLOYMENT_STATUS } from '../constants';
+
+const JOB_COLUMNS = `
+  id,
+  deployment_id as "deploymentId",
+  status,
+  attempts,
+  max_attempts as "maxAttempts",
+  run_after as "runAfter",
+  locked_by as "lockedBy",
+  locked_until as "lockedUntil",
+  last_heartbeat_at as "lastHeartbeatAt",
+  last_error as "lastError",
+  created_at as "createdAt",
+  updated_at as "updatedAt"
+`;
+
+/**
+ * Deployment Queue Service
+ * Postgres-backed job queue for deployment builds
+ * Jobs are claimed with a lease that workers extend via heartbeats, so a crashed
+ * worker's job is picked up again once its lease expires
+ */
+export class DeploymentQueueService {
+  /**
+   * Enqueue a deployment for a worker to build
+   * A deployment can only have one queued/running job at a time
+   */
+  static async enqueue(
+    deploymentId: string,
+    maxAttempts: number = config.queue.maxAttempts
+  ): Promise<DeploymentJob | null> {
+    const result = await query<DeploymentJob>(
+      `
+      INSERT INTO deployment_jobs (deployment_id, status, max_attempts)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (deployment_id) WHERE status IN ('queued', 'running') DO NOTHING
+      RETURNING ${JOB_COLUMNS}
+      `,
+      [deploymentId, DEPLOYMENT_JOB_STATUS.QUEUED, maxAttempts]
+    );
+
+    if (result.rowCount === 0) {
+      console.log(`[Queue] Deployment ${deploymentId} already has an active job`);
+      return null;
+    }
+
+    console.log(`[Queue] Enqueued deployment ${deploymentId} (job ${result.rows[0].id})`);
+    return result.rows[0];
+  }
+
+  /**
+   * Claim the next runnable job for a worker
+   * Picks queued jobs that are due, or running jobs whose lease has expired
+   * Uses SKIP LOCKED so concurrent workers never claim the same job
+   */
+  static async claimNext(workerId: string): Promise<DeploymentJob | null> {
+    const result = await query<DeploymentJob>(
+      `
+      UPDATE deployment_jobs
+      SET status = $1,
+          attempts = attempts + 1,
+          locked_by = $2,
+          locked_until = CURRENT_TIMESTAMP + make_interval(secs => $3),
+          last_heartbeat_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = (
+        SELECT id FROM deployment_jobs
+        WHERE (status = $4 AND run_after <= CURRENT_TIMESTAMP)
+           OR (status = $1 AND locked_until < CURRENT_TIMESTAMP AND attempts < max_attempts)
+        ORDER BY run_after ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING ${JOB_COLUMNS}
+      `,
+      [
+        DEPLOYMENT_JOB_STATUS.RUNNING,
+        workerId,
+        config.queue.leaseSeconds,
+        DEPLOYMENT_JOB_STATUS.QUEUED,
+      ]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Extend the lease on a running job
+   * Returns false if the worker no longer holds the lease
+   */
+  static async heartbeat(jobId: string, workerId: string): Promise<boolean> {
+    const result = await query(
+      `
+      UPDATE deployment_jobs
+      SET locked_until = CURRENT_TIMESTAMP + make_interval(secs => $1),
+          last_heartbeat_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND locked_by = $3 AND status = $4
+      `,
+      [config.queue.leaseSeconds, jobId, workerId, DEPLOYMENT_JOB_STATUS.RUNNING]
+    );
+
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Mark a job as completed
+   */
+  static async complete(jobId: string, workerId: string): Promise<void> {
+    await query(
+      `
+      UPDATE deployment_jobs
+      SET status = $1, locked_by = NULL, locked_until = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND locked_by = $3
+      `,
+      [DEPLOYMENT_JOB_STATUS.COMPLETED, jobId, workerId]
+    );
+  }
+
+  /**
+   * Put a job this worker holds back in the queue, for when its outcome couldn't be recorded
+   * The claim still counts as an attempt, so a job without attempts left is failed instead,
+   * along with its deployment unless that already finished
+   * Returns whether the job was requeued
+   */
+  static async release(jobId: string, workerId: string): Promise<boolean> {
+    const result = await query<{ status: string }>(
+      `
+      WITH released AS (
+        UPDATE deployment_jobs
+        SET status = CASE WHEN attempts < max_attempts THEN $1 ELSE $2 END,
+            last_error = CASE
+              WHEN attempts < max_attempts THEN last_error
+              ELSE 'Job outcome could not be recorded on final attempt'
+            END,
+            locked_by = NULL,
+            locked_until = NULL,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $3 AND locked_by = $4 AND status = $5
+        RETURNING deployment_id, status
+      ), failed AS (
+        UPDATE deployments
+        SET status = $6,
+            error_message = 'Deployment outcome could not be recorded',
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id IN (SELECT deployment_id FROM released WHERE status = $2)
+          AND status IN ($7, $8)
+      )
+      SELECT status FROM released
+      `,
+      [
+        DEPLOYMENT_JOB_STATUS.QUEUED,
+        DEPLOYMENT_JOB_STATUS.FAILED,
+        jobId,
+        workerId,
+        DEPLOYMENT_JOB_STATUS.RUNNING,
+        DEPLOYMENT_STATUS.FAILED,
+        DEPLOYMENT_STATUS.PENDING,
+        DEPLOYMENT_STATUS.BUILDING,
+      ]
+    );
+
+    return result.rows[0]?.status === DEPLOYMENT_JOB_STATUS.QUEUED;
+  }
+
+  /**
+   * Record a failed attempt
+   * Requeues the job with exponential backoff until max_attempts is reached
+   */
+  static async fail(
+    jobId: string,
+    workerId: string,
+    errorMessage: string
+  ): Promise<{ willRetry: boolean; attempts: number; maxAttempts: number }> {
+    const result = await query<{ status: string; attempts: number; maxAttempts: number }>(
+      `
+      UPDATE deployment_jobs
+      SET status = CASE WHEN attempts < max_attempts THEN $1 ELSE $2 END,
+          run_after = CASE
+            WHEN attempts < max_attempts
+            THEN CURRENT_TIMESTAMP + make_interval(secs => $3 * power(2, attempts - 1))
+            ELSE run_after
+          END,
+          last_error = $4,
+          locked_by = NULL,
+          locked_until = NULL,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $5 AND locked_by = $6
+      RETURNING status, attempts, max_attempts as "maxAttempts"
+      `,
+      [
+        DEPLOYMENT_JOB_STATUS.QUEUED,
+        DEPLOYMENT_JOB_STATUS.FAILED,
+        config.queue.retryBackoffSeconds,
+        errorMessage,
+        jobId,
+        workerId,
+      ]
+    );
+
+    const job = result.rows[0];
+    if (!job) {
+      // Lease was lost to another worker; let that worker decide the outcome
+      return { willRetry: false, attempts: 0, maxAttempts: 0 };
+    }
+
+    return {
+      willRetry: job.status === DEPLOYMENT_JOB_STATUS.QUEUED,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+    };
+  }
+
+  /**
+   * Cancel any active job for a deployment
+   */
+  static async cancelForDeployment(deploymentId: string): Promise<void> {
+    await query(
+      `
+      UPDATE deployment_jobs
+      SET status = $1, locked_by = NULL, locked_until = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE deployment_id = $2 AND status IN ($3, $4)
+      `,
+      [
+        DEPLOYMENT_JOB_STATUS.CANCELLED,
+        deploymentId,
+        DEPLOYMENT_JOB_STATUS.QUEUED,
+        DEPLOYMENT_JOB_STATUS.RUNNING,
+      ]
+    );
+  }
+
+  /**
+   * Fail jobs whose lease expired on their final attempt
+   * Their deployments would otherwise stay in 'building' forever
+   */
+  static async recoverExpiredLeases(): Promise<string[]> {
+    const result = await query<{ id: string }>(
+      `
+      WITH expired AS (
+        UPDATE deployment_jobs
+        SET status = $1,
+            last_error = 'Worker lease expired on final attempt',
+            locked_by = NULL,
+            locked_until = NULL,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE status = $2 AND locked_until < CURRENT_TIMESTAMP AND attempts >= max_attempts
+        RETURNING deployment_id
+      )
+      UPDATE deployments
+      SET status = $3,
+          error_message = 'Deployment worker stopped responding',
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id IN (SELECT deployment_id FROM expired)
+      RETURNING id
+      `,
+      [DEPLOYMENT_JOB_STATUS.FAILED, DEPLOYMENT_JOB_STATUS.RUNNING, DEPLOYMENT_STATUS.FAILED]
+    );
+
+    if (result.rowCount > 0) {
+      console.warn(`[Queue] Failed ${result.rowCount} deployment(s) after worker lease expiry`);
+    }
+
+    return result.rows.map((row) => row.id);
+  }
+}
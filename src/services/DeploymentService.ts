@@ -1,11 +1,38 @@
 import { query, transaction } from '../database';
-import { Deployment, DeploymentLog, CreateDeploymentRequest } from '../types';
+import {
+  AppManifest,
+  Deployment,
+  DeploymentBuildCache,
+  DeploymentLog,
+  CreateDeploymentRequest,
+  HealthCheckConfig,
+} from '../types';
 import { HTTP_STATUS, ERROR_CODES, DEPLOYMENT_STATUS } from '../constants';
 import { ApiError } from '../utils/error';
 import { DockerService } from './DockerService';
-import { NginxConfigService } from './NginxConfigService';
+import { ProxyService } from './ProxyService';
+import { DeploymentQueueService } from './DeploymentQueueService';
+import { LogStreamService } from './LogStreamService';
+import { PortAllocatorService } from './PortAllocatorService';
+import { HealthCheckService } from './HealthCheckService';
+import { SecretService } from './SecretService';
+import { VariableRevisionService } from './VariableRevisionService';
+import { GitService } from './GitService';
+import { RepositoryCredentialService } from './RepositoryCredentialService';
+import { ManifestService } from './ManifestService';
+import { BuildCacheService } from './BuildCacheService';
 import { v4 as uuidv4 } from 'uuid';
 
+/**
+ * Thrown inside the pipeline when the deployment was cancelled while it was running
+ */
+class DeploymentCancelledError extends Error {
+  constructor(deploymentId: string) {
+    super(`Deployment ${deploymentId} was cancelled`);
+    this.name = 'DeploymentCancelledError';
+  }
+}
+
 /**
  * Deployment Service
  * Orchestrates the deployment process including building, running, and monitoring containers
@@ -32,6 +59,15 @@ export class DeploymentService {
       throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.PROJECT_NOT_FOUND, 'Project not found');
     }
 
+    // Refs are handed to git, so only accept branch, tag and SHA shapes
+    if ([data.ref, data.commitSha].some((ref) => ref && !GitService.isValidRef(ref))) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Invalid ref or commitSha: expected a branch, tag or commit SHA'
+      );
+    }
+
     // Verify environment exists and belongs to project
     const envCheck = await query(
       'SELECT id FROM environments WHERE id = $1 AND project_id = $2 AND deleted_at IS NULL',
@@ -45,15 +81,19 @@ export class DeploymentService {
     // Create deployment record
     const result = await query<Deployment>(
       `
-      INSERT INTO deployments (id, project_id, environment_id, commit_sha, commit_message, status)
-      VALUES ($1, $2, $3, $4, $5, $6)
-      RETURNING id, project_id, environment_id, commit_sha, commit_message, status, 
-                duration_seconds, deployed_at, container_id, error_message, created_at, updated_at
+      INSERT INTO deployments (id, project_id, environment_id, ref, commit_sha, commit_message,
+                               status)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id, project_id, environment_id, ref, commit_sha, commit_message, commit_author,
+                status, duration_seconds, deployed_at, container_id, image_name, framework,
+                build_strategy, app_port, manifest, build_cache, source_deployment_id,
+                variables_revision, error_message, created_at, updated_at
       `,
       [
         deploymentId,
         projectId,
         data.environmentId,
+        data.ref || null,
         data.commitSha || null,
         data.commitMessage || null,
         DEPLOYMENT_STATUS.PENDING,
@@ -70,64 +110,82 @@ export class DeploymentService {
 
     const deployment = result.rows[0];
 
-    // Trigger deployment pipeline asynchronously
-    this.executeDeployment(deploymentId, projectId, data.environmentId, userId).catch((error) => {
-      console.error('[Deployment] Pipeline error:', error);
-    });
+    // Hand the build off to the worker queue so it survives API restarts
+    await DeploymentQueueService.enqueue(deploymentId);
 
     return deployment;
   }
 
   /**
-   * Execute an existing deployment (for webhooks)
-   * Triggers the build and deployment process asynchronously
+   * Execute a queued deployment (called by the deployment worker)
+   * Resolves project ownership and runs the pipeline, rethrowing failures so the
+   * queue can decide whether to retry
    */
-  static async executeWebhookDeployment(deploymentId: string): Promise<void> {
-    try {
-      // Fetch deployment details
-      const result = await query(
-        `SELECT d.id, d.project_id, d.environment_id
-         FROM deployments d
-         WHERE d.id = $1`,
-        [deploymentId]
-      );
+  static async runQueuedDeployment(deploymentId: string): Promise<void> {
+    const result = await query(
+      `SELECT d.id, d.project_id, d.environment_id, d.status, p.user_id
+       FROM deployments d
+       JOIN projects p ON d.project_id = p.id
+       WHERE d.id = $1`,
+      [deploymentId]
+    );
 
-      if (result.rows.length === 0) {
-        console.error(`[Webhook] Deployment not found: ${deploymentId}`);
-        return;
-      }
+    if (result.rows.length === 0) {
+      throw new Error(`Deployment not found: ${deploymentId}`);
+    }
 
-      const deployment = result.rows[0];
+    const deployment = result.rows[0];
 
-      // Get the project owner's user ID for deployment tracking
-      const projectResult = await query('SELECT user_id FROM projects WHERE id = $1', [
-        deployment.project_id,
-      ]);
+    if (deployment.status === DEPLOYMENT_STATUS.CANCELLED) {
+      console.log(`[Deployment] Skipping cancelled deployment ${deploymentId}`);
+      return;
+    }
+    // A job released after its deployment finished (e.g. the queue update failed) is done
+    if (deployment.status === DEPLOYMENT_STATUS.SUCCESS) {
+      console.log(`[Deployment] Skipping already successful deployment ${deploymentId}`);
+      return;
+    }
 
-      if (projectResult.rows.length === 0) {
-        console.error(`[Webhook] Project not found: ${deployment.project_id}`);
-        return;
-      }
+    await this.executeDeployment(
+      deployment.id,
+      deployment.project_id,
+      deployment.environment_id,
+      deployment.user_id
+    );
+  }
 
-      const userId = projectResult.rows[0].user_id;
-
-      // Trigger deployment asynchronously
-      this.executeDeployment(
-        deployment.id,
-        deployment.project_id,
-        deployment.environment_id,
-        userId
-      ).catch((error) => {
-        console.error(`[Webhook] Error executing deployment ${deploymentId}:`, error);
-      });
-    } catch (error) {
-      console.error(`[Webhook] Error in executeWebhookDeployment:`, error);
+  /**
+   * Put a failed deployment back to pending while its job waits for a retry
+   */
+  static async markDeploymentRetrying(
+    deploymentId: string,
+    attempt: number,
+    maxAttempts: number
+  ): Promise<void> {
+    const result = await query(
+      `
+      UPDATE deployments SET status = $1, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2 AND status <> $3
+      `,
+      [DEPLOYMENT_STATUS.PENDING, deploymentId, DEPLOYMENT_STATUS.CANCELLED]
+    );
+    if (result.rowCount === 0) {
+      return;
     }
+
+    await this.addDeploymentLog(
+      deploymentId,
+      'warning',
+      `Attempt ${attempt}/${maxAttempts} failed, deployment will be retried`
+    );
   }
 
   /**
-   * Execute the deployment pipeline asynchronously
+   * Execute the deployment pipeline
    * Builds image, runs container, and updates status
+   * Marks the deployment failed and rethrows on error
+   * Cancellation is checked between phases; a cancelled deployment stops there, removes
+   * what it started and resolves without touching its status
    */
   public static async executeDeployment(
     deploymentId: string,
@@ -136,23 +194,41 @@ export class DeploymentService {
     userId: string
   ): Promise<void> {
     const startTime = Date.now();
+    // What this run started, so a cancellation can remove it
+    let builtImage: string | undefined;
+    let containerId: string | undefined;
 
     try {
       // Update status to building
-      await query('UPDATE deployments SET status = $1 WHERE id = $2', [
-        DEPLOYMENT_STATUS.BUILDING,
-        deploymentId,
-      ]);
+      const started = await query(
+        'UPDATE deployments SET status = $1 WHERE id = $2 AND status <> $3',
+        [DEPLOYMENT_STATUS.BUILDING, deploymentId, DEPLOYMENT_STATUS.CANCELLED]
+      );
+      if (started.rowCount === 0) {
+        throw new DeploymentCancelledError(deploymentId);
+      }
 
       await this.addDeploymentLog(deploymentId, 'info', 'Starting deployment pipeline...');
 
       // Get environment configuration
-      const envResult = await query<any>(
-        'SELECT environment_variables FROM environments WHERE id = $1',
-        [environmentId]
+      const envResult = await query<any>('SELECT health_check FROM environments WHERE id = $1', [
+        environmentId,
+      ]);
+
+      // Variables come from a saved revision so the deployment records exactly what it ran with
+      const variables = await VariableRevisionService.getDeploymentSnapshot(environmentId);
+      await query('UPDATE deployments SET variables_revision = $1 WHERE id = $2', [
+        variables.revision,
+        deploymentId,
+      ]);
+      await this.addDeploymentLog(
+        deploymentId,
+        'info',
+        `Using environment variables revision ${variables.revision}`
       );
 
-      const envVariables = envResult.rows[0]?.environment_variables || {};
+      const environmentHealthCheck: HealthCheckConfig =
+        envResult.rows[0]?.health_check || HealthCheckService.defaultHealthCheck();
 
       // Get project repository URL
       const projectResult = await query('SELECT repository_url FROM projects WHERE id = $1', [
@@ -160,39 +236,265 @@ export class DeploymentService {
       ]);
       const repositoryUrl = projectResult.rows[0]?.repository_url;
 
-      // Build Docker image
-      await this.addDeploymentLog(deploymentId, 'info', 'Building Docker image...');
-      const { imageId, imageName, framework } = await DockerService.buildImage(
-        projectId,
-        deploymentId,
-        repositoryUrl
+      // Rollback deployments reuse the image of the deployment they were created from
+      const deploymentResult = await query(
+        `
+        SELECT image_name, framework, build_strategy, app_port, manifest, source_deployment_id,
+               ref, commit_sha
+        FROM deployments WHERE id = $1
+        `,
+        [deploymentId]
       );
+      const {
+        source_deployment_id: sourceDeploymentId,
+        ref,
+        commit_sha: requestedSha,
+        ...previousBuild
+      } = deploymentResult.rows[0] || {};
+
+      let imageName: string;
+      let framework: string;
+      let appPort: number;
+      let manifest: AppManifest | undefined;
+
+      if (sourceDeploymentId && previousBuild.image_name) {
+        imageName = previousBuild.image_name;
+        framework = previousBuild.framework || 'node';
+        appPort = previousBuild.app_port || 3000;
+        manifest = previousBuild.manifest || undefined;
 
-      await this.addDeploymentLog(deploymentId, 'info', `Docker image built: ${imageName}`);
+        await this.addDeploymentLog(
+          deploymentId,
+          'info',
+          `Rolling back: reusing image ${imageName} from deployment ${sourceDeploymentId}`
+        );
 
-      // Run container
+        if (!(await DockerService.imageExists(imageName))) {
+          throw new Error(`Image ${imageName} is no longer available on this host`);
+        }
+      } else {
+        // Build Docker image, streaming raw build output into the deployment log
+        // A specific commit SHA wins over a branch or tag
+        await this.addDeploymentLog(deploymentId, 'info', 'Building Docker image...');
+        const requestedRef: string | undefined = requestedSha || ref || undefined;
+        const buildLog = this.createBuildLogWriter(deploymentId);
+        const credentials = await RepositoryCredentialService.getProjectCredentials(projectId);
+        const cache = await BuildCacheService.getBuildOptions(projectId);
+        if (cache.noCache) {
+          await this.addDeploymentLog(
+            deploymentId,
+            'info',
+            'Build cache was cleared: rebuilding every layer'
+          );
+        }
+        const build = await DockerService.buildImage(
+          projectId,
+          deploymentId,
+          repositoryUrl,
+          requestedRef,
+          buildLog.write,
+          credentials,
+          cache
+        ).finally(() => buildLog.flush());
+        const { commit, plan, cacheUsage } = build;
+        imageName = build.imageName;
+        builtImage = build.imageName;
+        framework = plan.framework;
+        appPort = plan.port;
+        manifest = build.manifest;
+        const buildCache: DeploymentBuildCache = {
+          ...cacheUsage,
+          generation: cache.generation,
+          noCache: cache.noCache,
+        };
+
+        await query(
+          `
+          UPDATE deployments
+          SET build_strategy = $1, framework = $2, app_port = $3, manifest = $4, build_cache = $5,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE id = $6
+          `,
+          [
+            plan.strategy,
+            plan.framework,
+            plan.port,
+            manifest ? JSON.stringify(manifest) : null,
+            JSON.stringify(buildCache),
+            deploymentId,
+          ]
+        );
+
+        if (commit) {
+          await query(
+            `
+            UPDATE deployments
+            SET commit_sha = $1, commit_message = $2, commit_author = $3,
+                updated_at = CURRENT_TIMESTAMP
+            WHERE id = $4
+            `,
+            [commit.sha, commit.message, commit.author, deploymentId]
+          );
+          const summary = commit.message.split('\n')[0];
+          await this.addDeploymentLog(
+            deploymentId,
+            'info',
+            `Checked out ${requestedRef || 'default branch'} at ${commit.sha.substring(0, 12)} ` +
+              `(${commit.author}): ${summary}`
+          );
+        }
+
+        await this.addDeploymentLog(
+          deploymentId,
+          'info',
+          `Docker image built: ${imageName} (build strategy: ${plan.strategy})`
+        );
+        const checkoutSummary = buildCache.workspaceHit
+          ? 'repository fetched incrementally, '
+          : 'repository cloned, ';
+        await this.addDeploymentLog(
+          deploymentId,
+          'info',
+          `Build cache: ${repositoryUrl ? checkoutSummary : ''}` +
+            `${buildCache.layersCached}/${buildCache.layersTotal} build steps cached`
+        );
+      }
+
+      // A health check declared in the repository manifest wins over the environment's
+      const healthCheck = manifest?.healthCheck || environmentHealthCheck;
+      if (manifest?.healthCheck) {
+        await this.addDeploymentLog(deploymentId, 'info', 'Using health check from the manifest');
+      }
+
+      await this.assertNotCancelled(deploymentId);
+
+      // Start the new container alongside the one currently serving traffic
+      // Precedence: attached variable groups < environment variables < secrets
+      // Secrets are decrypted only here
       await this.addDeploymentLog(deploymentId, 'info', 'Starting container...');
-      const { containerId, port } = await DockerService.runContainer(
+      const secrets = SecretService.decryptSecrets(variables.secrets);
+      const containerEnv = { ...variables.groupVariables, ...variables.variables, ...secrets };
+      const container = await DockerService.runContainer(
         imageName,
         projectId,
         environmentId,
-        envVariables,
-        framework
+        deploymentId,
+        containerEnv,
+        appPort
       );
+      containerId = container.containerId;
+      const { port } = container;
 
+      await query('UPDATE deployments SET container_id = $1, container_port = $2 WHERE id = $3', [
+        containerId,
+        port,
+        deploymentId,
+      ]);
       await this.addDeploymentLog(deploymentId, 'info', `Container running on port ${port}`);
 
-      // Update deployment with success status
+      // Only switch traffic once the new container passes its readiness probe
+      await this.addDeploymentLog(
+        deploymentId,
+        'info',
+        healthCheck.type === 'http'
+          ? `Waiting for health check: HTTP GET ${healthCheck.path} (up to ${healthCheck.maxWaitSeconds}s)`
+          : `Waiting for health check: TCP container port ${appPort} (up to ${healthCheck.maxWaitSeconds}s)`
+      );
+      try {
+        await HealthCheckService.waitUntilHealthy(containerId, port, healthCheck, appPort);
+      } catch (healthError) {
+        // Capture what the app printed before tearing the container down
+        const containerLogs = await DockerService.getContainerLogs(containerId, 50);
+        await this.addDeploymentLog(
+          deploymentId,
+          'error',
+          `Container logs (last 50 lines):\n${containerLogs.trim() || '(no output)'}`
+        );
+        await DockerService.stopContainer(containerId).catch((stopError) =>
+          console.error('[Deployment] Failed to remove unhealthy container:', stopError)
+        );
+        throw healthError;
+      }
+      await this.addDeploymentLog(deploymentId, 'info', 'Health check passed');
+
+      await this.assertNotCancelled(deploymentId);
+
+      // Extra process types from the manifest run next to the web container
+      const processes = ManifestService.workerProcesses(manifest);
+      try {
+        for (const [processName, command] of processes) {
+          await DockerService.runProcessContainer(
+            imageName,
+            projectId,
+            environmentId,
+            deploymentId,
+            processName,
+            command,
+            containerEnv
+          );
+          await this.addDeploymentLog(deploymentId, 'info', `Started ${processName} process`);
+        }
+      } catch (processError) {
+        await DockerService.stopProcessContainers(deploymentId).catch((stopError) =>
+          console.error('[Deployment] Failed to remove process containers:', stopError)
+        );
+        await DockerService.stopContainer(containerId).catch((stopError) =>
+          console.error('[Deployment] Failed to remove container:', stopError)
+        );
+        throw processError;
+      }
+
+      // Update deployment with success status; the proxy routes to the latest successful
+      // deployment, so this has to happen before the switch
       const duration = Math.floor((Date.now() - startTime) / 1000);
 
-      await query(
+      const succeeded = await query(
         `
         UPDATE deployments 
-        SET status = $1, container_id = $2, container_port = $3, duration_seconds = $4, deployed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
-        WHERE id = $5
+        SET status = $1, container_id = $2, container_port = $3, duration_seconds = $4,
+            image_name = $5, framework = $6, deployed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $7 AND status <> $8
         `,
-        [DEPLOYMENT_STATUS.SUCCESS, containerId, port, duration, deploymentId]
+        [
+          DEPLOYMENT_STATUS.SUCCESS,
+          containerId,
+          port,
+          duration,
+          imageName,
+          framework,
+          deploymentId,
+          DEPLOYMENT_STATUS.CANCELLED,
+        ]
       );
+      if (succeeded.rowCount === 0) {
+        throw new DeploymentCancelledError(deploymentId);
+      }
+
+      // Regenerate proxy config so the upstream points at the new container
+      await this.addDeploymentLog(deploymentId, 'info', 'Updating proxy configuration...');
+      try {
+        await ProxyService.applyConfig();
+        await this.addDeploymentLog(
+          deploymentId,
+          'info',
+          'Proxy configuration updated - app now accessible at subdomain'
+        );
+      } catch (proxyError) {
+        // Traffic never switched: the previous containers keep serving, so the new ones are
+        // removed instead of draining the old ones
+        console.error('[Deployment] Proxy config update failed:', proxyError);
+        await DockerService.stopProcessContainers(deploymentId).catch((stopError) =>
+          console.error('[Deployment] Failed to remove process containers:', stopError)
+        );
+        await DockerService.stopContainer(containerId).catch((stopError) =>
+          console.error('[Deployment] Failed to remove container:', stopError)
+        );
+        throw new Error(
+          `Proxy configuration update failed, previous deployment is still serving: ${
+            proxyError instanceof Error ? proxyError.message : proxyError
+          }`
+        );
+      }
 
       await this.addDeploymentLog(
         deploymentId,
@@ -200,26 +502,36 @@ export class DeploymentService {
         `Deployment completed successfully in ${duration}s`
       );
 
-      // Regenerate nginx config with new deployment
-      await this.addDeploymentLog(deploymentId, 'info', 'Updating nginx configuration...');
+      // Drain and remove the containers that were serving before the switch
       try {
-        await NginxConfigService.applyNginxConfig();
-        await this.addDeploymentLog(
-          deploymentId,
-          'info',
-          'Nginx configuration updated - app now accessible at subdomain'
+        const drained = await DockerService.drainOldContainers(
+          projectId,
+          environmentId,
+          deploymentId
         );
-      } catch (nginxError) {
-        console.warn('[Deployment] Nginx config update failed:', nginxError);
+        if (drained.length > 0) {
+          await this.addDeploymentLog(
+            deploymentId,
+            'info',
+            `Drained and removed ${drained.length} previous container(s)`
+          );
+        }
+      } catch (drainError) {
+        console.warn('[Deployment] Failed to drain old containers:', drainError);
         await this.addDeploymentLog(
           deploymentId,
-          'warn',
-          'Deployment successful but nginx config update failed (may require manual setup)'
+          'warning',
+          'New container is live but old containers could not be removed'
         );
       }
 
       console.log(`[Deployment] Deployment ${deploymentId} completed successfully`);
     } catch (error) {
+      if (error instanceof DeploymentCancelledError) {
+        await this.cleanUpCancelledRun(deploymentId, containerId, builtImage);
+        return;
+      }
+
       const duration = Math.floor((Date.now() - startTime) / 1000);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -227,15 +539,62 @@ export class DeploymentService {
         `
         UPDATE deployments 
         SET status = $1, error_message = $2, duration_seconds = $3, updated_at = CURRENT_TIMESTAMP
-        WHERE id = $4
+        WHERE id = $4 AND status <> $5
         `,
-        [DEPLOYMENT_STATUS.FAILED, errorMessage, duration, deploymentId]
+        [
+          DEPLOYMENT_STATUS.FAILED,
+          errorMessage,
+          duration,
+          deploymentId,
+          DEPLOYMENT_STATUS.CANCELLED,
+        ]
       );
 
       await this.addDeploymentLog(deploymentId, 'error', `Deployment failed: ${errorMessage}`);
+      await PortAllocatorService.releaseUnattached(deploymentId).catch((releaseError) =>
+        console.error('[Deployment] Failed to release reserved port:', releaseError)
+      );
 
       console.error(`[Deployment] Deployment ${deploymentId} failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the pipeline if the deployment was cancelled while it was running
+   */
+  private static async assertNotCancelled(deploymentId: string): Promise<void> {
+    const result = await query<{ status: string }>('SELECT status FROM deployments WHERE id = $1', [
+      deploymentId,
+    ]);
+    if (result.rows[0]?.status === DEPLOYMENT_STATUS.CANCELLED) {
+      throw new DeploymentCancelledError(deploymentId);
+    }
+  }
+
+  /**
+   * Remove what a cancelled run started: its containers, its reserved port and the image it
+   * built (rollbacks reuse an existing image, which is kept)
+   */
+  private static async cleanUpCancelledRun(
+    deploymentId: string,
+    containerId?: string,
+    builtImage?: string
+  ): Promise<void> {
+    console.log(`[Deployment] Deployment ${deploymentId} was cancelled, cleaning up`);
+    try {
+      await DockerService.stopProcessContainers(deploymentId);
+      if (containerId) {
+        await DockerService.stopContainer(containerId);
+      }
+      await PortAllocatorService.releaseUnattached(deploymentId);
+      if (builtImage) {
+        await DockerService.removeImage(builtImage);
+      }
+    } catch (cleanupError) {
+      console.error('[Deployment] Failed to clean up cancelled deployment:', cleanupError);
     }
+    await this.addDeploymentLog(deploymentId, 'info', 'Deployment stopped after cancellation');
   }
 
   /**
@@ -259,8 +618,10 @@ export class DeploymentService {
 
     const deploymentsResult = await query<Deployment>(
       `
-      SELECT id, project_id, environment_id, commit_sha, commit_message, status, 
-             duration_seconds, deployed_at, container_id, error_message, created_at, updated_at
+      SELECT id, project_id, environment_id, ref, commit_sha, commit_message, commit_author,
+             status, duration_seconds, deployed_at, container_id, image_name, framework,
+             build_strategy, app_port, manifest, build_cache, source_deployment_id,
+             variables_revision, error_message, created_at, updated_at
       FROM deployments
       WHERE project_id = $1
       ORDER BY created_at DESC
@@ -286,8 +647,11 @@ export class DeploymentService {
   static async getDeployment(deploymentId: string, userId: string): Promise<Deployment> {
     const result = await query<Deployment>(
       `
-      SELECT d.id, d.project_id, d.environment_id, d.commit_sha, d.commit_message, d.status,
-             d.duration_seconds, d.deployed_at, d.container_id, d.error_message, d.created_at, d.updated_at
+      SELECT d.id, d.project_id, d.environment_id, d.ref, d.commit_sha, d.commit_message,
+             d.commit_author, d.status, d.duration_seconds, d.deployed_at, d.container_id,
+             d.image_name, d.framework, d.build_strategy, d.app_port, d.manifest, d.build_cache,
+             d.source_deployment_id, d.variables_revision, d.error_message, d.created_at,
+             d.updated_at
       FROM deployments d
       JOIN projects p ON d.project_id = p.id
       WHERE d.id = $1 AND p.user_id = $2
@@ -306,6 +670,17 @@ export class DeploymentService {
    * Get deployment logs
    */
   static async getDeploymentLogs(deploymentId: string, userId: string): Promise<DeploymentLog[]> {
+    return this.getDeploymentLogsSince(deploymentId, userId, 0);
+  }
+
+  /**
+   * Get deployment logs after a given sequence number (for resumable streaming)
+   */
+  static async getDeploymentLogsSince(
+    deploymentId: string,
+    userId: string,
+    sinceSeq: number
+  ): Promise<DeploymentLog[]> {
     // Verify access
     const deployCheck = await query(
       `
@@ -322,12 +697,12 @@ export class DeploymentService {
 
     const result = await query<DeploymentLog>(
       `
-      SELECT id, deployment_id, log_level, message, timestamp
+      SELECT id, deployment_id, seq, source, log_level, message, timestamp
       FROM deployment_logs
-      WHERE deployment_id = $1
-      ORDER BY timestamp ASC
+      WHERE deployment_id = $1 AND seq > $2
+      ORDER BY seq ASC
       `,
-      [deploymentId]
+      [deploymentId, sinceSeq]
     );
 
     return result.rows;
@@ -335,43 +710,79 @@ export class DeploymentService {
 
   /**
    * Add log entry to deployment
+   * Notifies live log streams that a new entry is available
    */
   static async addDeploymentLog(
     deploymentId: string,
-    level: string,
-    message: string
+    level: DeploymentLog['logLevel'],
+    message: string,
+    source: 'pipeline' | 'build' = 'pipeline'
   ): Promise<void> {
     await query(
       `
-      INSERT INTO deployment_logs (id, deployment_id, log_level, message)
-      VALUES ($1, $2, $3, $4)
+      WITH inserted AS (
+        INSERT INTO deployment_logs (id, deployment_id, log_level, message, source)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING deployment_id
+      )
+      SELECT pg_notify($6, deployment_id::text) FROM inserted
       `,
-      [uuidv4(), deploymentId, level, message]
+      [uuidv4(), deploymentId, level, message, source, LogStreamService.CHANNEL]
     );
   }
 
+  /**
+   * Create a writer that records raw build output lines in order
+   * Lines are written sequentially; await flush() before relying on them
+   */
+  private static createBuildLogWriter(deploymentId: string): {
+    write: (line: string) => void;
+    flush: () => Promise<void>;
+  } {
+    let pending: Promise<void> = Promise.resolve();
+
+    return {
+      write: (line: string) => {
+        pending = pending
+          .then(() => this.addDeploymentLog(deploymentId, 'info', line, 'build'))
+          .catch((error) => console.error('[Deployment] Failed to record build output:', error));
+      },
+      flush: () => pending,
+    };
+  }
+
   /**
    * Rollback deployment to previous version
+   * Creates a new deployment that re-runs the previous successful deployment's image,
+   * queued like any other deployment so the proxy is regenerated once it is live
    */
   static async rollbackDeployment(deploymentId: string, userId: string): Promise<Deployment> {
-    // Get current deployment
-    const currentDeployment = await this.getDeployment(deploymentId, userId);
+    // Verify access, then load the current deployment's placement
+    await this.getDeployment(deploymentId, userId);
+    const currentResult = await query<{
+      project_id: string;
+      environment_id: string;
+      created_at: Date;
+    }>('SELECT project_id, environment_id, created_at FROM deployments WHERE id = $1', [
+      deploymentId,
+    ]);
+    const currentDeployment = currentResult.rows[0];
 
-    // Find previous successful deployment
-    const previousResult = await query<Deployment>(
+    // Find previous successful deployment with a reusable image
+    const previousResult = await query<{ id: string }>(
       `
-      SELECT id, project_id, environment_id, commit_sha, commit_message, status,
-             duration_seconds, deployed_at, container_id, error_message, created_at, updated_at
+      SELECT id
       FROM deployments
       WHERE project_id = $1 AND environment_id = $2 AND status = $3 AND created_at < $4
+        AND image_name IS NOT NULL
       ORDER BY created_at DESC
       LIMIT 1
       `,
       [
-        currentDeployment.projectId,
-        currentDeployment.environmentId,
+        currentDeployment.project_id,
+        currentDeployment.environment_id,
         DEPLOYMENT_STATUS.SUCCESS,
-        currentDeployment.createdAt,
+        currentDeployment.created_at,
       ]
     );
 
@@ -385,23 +796,44 @@ export class DeploymentService {
 
     const previousDeployment = previousResult.rows[0];
 
-    // Stop current container
-    if (currentDeployment.containerId) {
-      try {
-        await DockerService.stopContainer(currentDeployment.containerId);
-      } catch (error) {
-        console.error('[Deployment] Failed to stop current container:', error);
-      }
-    }
+    const result = await query<Deployment>(
+      `
+      INSERT INTO deployments (id, project_id, environment_id, ref, commit_sha, commit_message,
+                               commit_author, status, image_name, framework, build_strategy,
+                               app_port, manifest, source_deployment_id)
+      SELECT $1, project_id, environment_id, ref, commit_sha, $2, commit_author, $3, image_name,
+             framework, build_strategy, app_port, manifest, id
+      FROM deployments
+      WHERE id = $4
+      RETURNING id, project_id, environment_id, ref, commit_sha, commit_message, commit_author,
+                status, duration_seconds, deployed_at, container_id, image_name, framework,
+                build_strategy, app_port, manifest, build_cache, source_deployment_id,
+                variables_revision, error_message, created_at, updated_at
+      `,
+      [
+        uuidv4(),
+        `Rollback to deployment ${previousDeployment.id}`,
+        DEPLOYMENT_STATUS.PENDING,
+        previousDeployment.id,
+      ]
+    );
+
+    const rollback = result.rows[0];
 
-    // Restart previous container (in production, this would be more sophisticated)
     await this.addDeploymentLog(
       deploymentId,
       'info',
-      `Rolling back to deployment ${previousDeployment.id}`
+      `Rolling back to deployment ${previousDeployment.id} (rollback deployment ${rollback.id})`
     );
+    await this.addDeploymentLog(
+      rollback.id,
+      'info',
+      `Rollback of deployment ${deploymentId} to deployment ${previousDeployment.id}`
+    );
+
+    await DeploymentQueueService.enqueue(rollback.id);
 
-    return previousDeployment;
+    return rollback;
   }
 
   /**
@@ -421,18 +853,26 @@ export class DeploymentService {
       );
     }
 
-    // Stop container if running
-    if (deployment.containerId) {
-      try {
-        await DockerService.stopContainer(deployment.containerId);
-      } catch (error) {
-        console.error('[Deployment] Failed to stop container:', error);
-      }
+    await DeploymentQueueService.cancelForDeployment(deploymentId);
+
+    // Stop whatever the build has started so far, including its process containers
+    const containerResult = await query<{ container_id: string | null }>(
+      'SELECT container_id FROM deployments WHERE id = $1',
+      [deploymentId]
+    );
+    const containerId = containerResult.rows[0]?.container_id;
+    if (containerId) {
+      await DockerService.stopContainer(containerId).catch((error) =>
+        console.error('[Deployment] Failed to stop container:', error)
+      );
     }
+    await DockerService.stopProcessContainers(deploymentId).catch((error) =>
+      console.error('[Deployment] Failed to stop process containers:', error)
+    );
 
     await query(
       'UPDATE deployments SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-      ['cancelled', deploymentId]
+      [DEPLOYMENT_STATUS.CANCELLED, deploymentId]
     );
 
     await this.addDeploymentLog(deploymentId, 'info', 'Deployment cancelled by user');
@@ -1,7 +1,14 @@
 import Docker from 'dockerode';
 import { v4 as uuidv4 } from 'uuid';
 import config from '../config';
-import { execSync } from 'child_process';
+import { AppManifest } from '../types';
+import { PortAllocatorService } from './PortAllocatorService';
+import { CommitInfo, GitCredentials, GitService } from './GitService';
+import { BuildPlan, BuildStrategyService } from './BuildStrategyService';
+import { ManifestService } from './ManifestService';
+import { WorkspaceService } from './WorkspaceService';
+import { BuildCacheOptions } from './BuildCacheService';
+import { runCommand } from '../utils/command';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -15,43 +22,27 @@ const docker = new Docker();
 export class DockerService {
   /**
    * Detect framework from repository URL
-   * Clones repo temporarily, checks package.json, returns detected framework
+   * Checks out the default branch temporarily and returns the framework of the build
+   * strategy that would be used for it. It runs before the project exists, so it uses a
+   * throwaway repository rather than the project's workspace
    */
-  static async detectFramework(repositoryUrl: string): Promise<string> {
+  static async detectFramework(
+    repositoryUrl: string,
+    credentials?: GitCredentials
+  ): Promise<string> {
     const tempDir = path.join('/tmp', `detect-${uuidv4().substring(0, 8)}`);
+    const repoDir = `${tempDir}.git`;
 
     try {
-      // Create temp directory
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
-      }
+      // Check out the default branch
+      console.log(
+        `[Framework Detection] Checking out repository: ${GitService.redactUrl(repositoryUrl)}`
+      );
+      const commit = await GitService.fetch(repositoryUrl, repoDir, undefined, credentials);
+      await GitService.addWorktree(repoDir, tempDir, commit.sha);
 
-      // Clone repository
-      console.log(`[Framework Detection] Cloning repository: ${repositoryUrl}`);
-      execSync(`git clone ${repositoryUrl} ${tempDir}`, { stdio: 'pipe' });
-
-      // Check for package.json
-      const packageJsonPath = path.join(tempDir, 'package.json');
-      let framework = 'node'; // default
-
-      if (fs.existsSync(packageJsonPath)) {
-        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-        const deps = {
-          ...packageJson.dependencies,
-          ...packageJson.devDependencies,
-        };
-
-        // Detect framework
-        if (deps['react'] || deps['react-dom']) {
-          framework = 'react';
-        } else if (deps['next']) {
-          framework = 'next';
-        } else if (deps['express']) {
-          framework = 'express';
-        }
-
-        console.log(`[Framework Detection] Detected framework: ${framework}`);
-      }
+      const { framework, strategy } = BuildStrategyService.select(tempDir);
+      console.log(`[Framework Detection] Detected framework: ${framework} (strategy ${strategy})`);
 
       return framework;
     } catch (error) {
@@ -60,309 +51,197 @@ export class DockerService {
       return 'node';
     } finally {
       // Cleanup
-      try {
-        fs.rmSync(tempDir, { recursive: true, force: true });
-      } catch (e) {
-        // ignore cleanup errors
+      for (const dir of [tempDir, repoDir]) {
+        fs.rmSync(dir, { recursive: true, force: true });
       }
     }
   }
 
   /**
    * Build Docker image from source code
-   * Clones repository, detects framework, and builds custom Docker image
+   * Checks out the requested ref (default branch if none) as a worktree of the project's
+   * workspace, reads the repository manifest, picks a build strategy and builds the image in
+   * the worktree. The chosen strategy and raw `docker build` output are passed line by line
+   * to onOutput; an invalid manifest fails the build
+   * Private repositories are fetched with the given credentials. With a cache, package
+   * manager caches are mounted under its id, and noCache rebuilds every layer
    */
   static async buildImage(
     projectId: string,
     deploymentId: string,
-    sourceUrl?: string
-  ): Promise<{ imageId: string; imageName: string; framework: string }> {
+    sourceUrl?: string,
+    ref?: string,
+    onOutput?: (line: string) => void,
+    credentials?: GitCredentials,
+    cache?: BuildCacheOptions
+  ): Promise<{
+    imageId: string;
+    imageName: string;
+    plan: BuildPlan;
+    manifest?: AppManifest;
+    commit?: CommitInfo;
+    cacheUsage: {
+      workspaceHit: boolean;
+      workspaceSizeBytes?: number;
+      layersCached: number;
+      layersTotal: number;
+    };
+  }> {
     const tempDir = path.join('/tmp', `gilgal-${deploymentId}`);
     const imageName = `gilgal-${projectId}-${uuidv4().substring(0, 8)}`;
+    let commit: CommitInfo | undefined;
+    let workspaceHit = false;
+    let workspaceSizeBytes: number | undefined;
+    let plan: BuildPlan;
+    let manifest: AppManifest | undefined;
 
-    try {
-      console.log(`[Docker] Starting image build: ${imageName}`);
-
-      // Create temp directory
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
-      }
-
-      // Clone repository if sourceUrl provided
-      if (sourceUrl) {
-        console.log(`[Docker] Cloning repository: ${sourceUrl}`);
-        try {
-          execSync(`git clone ${sourceUrl} ${path.join(tempDir, 'source')}`, {
-            stdio: 'pipe',
-          });
-          console.log(`[Docker] Repository cloned successfully`);
-        } catch (gitError) {
-          console.error(`[Docker] Git clone failed: ${gitError}`);
-          throw new Error(`Failed to clone repository: ${gitError}`);
+    const cleanup = async () => {
+      try {
+        if (sourceUrl) {
+          await WorkspaceService.release(projectId, tempDir);
+        } else {
+          fs.rmSync(tempDir, { recursive: true, force: true });
         }
+      } catch (e) {
+        // ignore cleanup errors
       }
+    };
 
-      // Detect framework and generate Dockerfile
-      const sourceDir = sourceUrl ? path.join(tempDir, 'source') : tempDir;
-      const packageJsonPath = path.join(sourceDir, 'package.json');
-
-      let framework = 'node'; // default
-      if (fs.existsSync(packageJsonPath)) {
-        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
-        const deps = {
-          ...packageJson.dependencies,
-          ...packageJson.devDependencies,
-        };
-
-        // Detect framework
-        if (deps['react'] || deps['react-dom']) {
-          framework = 'react';
-        } else if (deps['next']) {
-          framework = 'next';
-        } else if (deps['express']) {
-          framework = 'express';
-        }
+    try {
+      console.log(`[Docker] Starting image build: ${imageName}`);
 
-        console.log(`[Docker] Detected framework: ${framework}`);
+      // Check out the requested ref if sourceUrl provided, otherwise build an empty context
+      if (sourceUrl) {
+        console.log(
+          `[Docker] Checking out ${ref || 'default branch'} of ${GitService.redactUrl(sourceUrl)}`
+        );
+        const checkout = await WorkspaceService.checkout(
+          projectId,
+          sourceUrl,
+          tempDir,
+          ref,
+          credentials,
+          cache?.generation
+        );
+        commit = checkout.commit;
+        workspaceHit = checkout.cacheHit;
+        workspaceSizeBytes = checkout.sizeBytes;
+        console.log(
+          `[Docker] Checked out commit ${commit.sha} ` +
+            `(${workspaceHit ? 'incremental fetch' : 'new workspace'})`
+        );
+      } else if (!fs.existsSync(tempDir)) {
+        fs.mkdirSync(tempDir, { recursive: true });
       }
 
-      // Generate nginx.conf for React apps BEFORE Dockerfile
-      if (framework === 'react') {
-        const nginxConf = `server {
-    listen 80 default_server;
-    listen [::]:80 default_server;
-    server_name _;
-
-    root /usr/share/nginx/html;
-    index index.html index.htm;
-
-    # React Router fallback
-    location / {
-        try_files $uri $uri/ /index.html;
-    }
-
-    # Cache static assets
-    location ~* \\.(js|css|png|jpg|jpeg|gif|ico|svg|woff|woff2|ttf|eot)$ {
-        expires 1y;
-        add_header Cache-Control "public, immutable";
-    }
-
-    # Don't cache HTML
-    location = /index.html {
-        add_header Cache-Control "no-cache, no-store, must-revalidate";
-    }
-
-    # Deny dotfiles
-    location ~ /\\. {
-        deny all;
-    }
-}`;
-        fs.writeFileSync(path.join(tempDir, 'nginx.conf'), nginxConf);
-        console.log(`[Docker] Generated nginx.conf for React app`);
+      // A gilgal.json / gilgal.yaml manifest overrides what the strategy would infer
+      const loaded = ManifestService.load(tempDir);
+      manifest = loaded?.manifest;
+      if (loaded) {
+        console.log(`[Docker] Using manifest ${loaded.file}`);
+        onOutput?.(`Using build and runtime settings from ${loaded.file}`);
       }
 
-      // Create .dockerignore to exclude unnecessary files
-      const dockerignore = `node_modules
-npm-debug.log
-.git
-.gitignore
-.env
-.env.local
-.DS_Store
-dist
-build
-.next
-out
-.turbo
-*.md
-.vscode
-.idea
-coverage
-.nyc_output
-*.log
-.cache`;
-      fs.writeFileSync(path.join(tempDir, '.dockerignore'), dockerignore);
-      console.log(`[Docker] Generated .dockerignore`);
-
-      // Generate Dockerfile based on framework
-      const dockerfile = this.generateDockerfile(framework);
-      fs.writeFileSync(path.join(tempDir, 'Dockerfile'), dockerfile);
-
-      // Copy source code if exists
-      if (sourceUrl && fs.existsSync(path.join(tempDir, 'source'))) {
-        console.log(`[Docker] Copying source code...`);
-        const sourceDir = path.join(tempDir, 'source');
-
-        // List contents of source directory for debugging
-        const sourceContents = execSync(`ls -la ${sourceDir}`, {
-          stdio: 'pipe',
-          encoding: 'utf-8',
-        });
-        console.log(`[Docker] Source directory contents:\n${sourceContents}`);
-
-        // Copy all files from source to tempDir
-        execSync(`cd ${sourceDir} && cp -r . ${tempDir}`, {
-          stdio: 'pipe',
-        });
-
-        // Verify files copied
-        const tempContents = execSync(`ls -la ${tempDir}`, {
-          stdio: 'pipe',
-          encoding: 'utf-8',
-        });
-        console.log(`[Docker] Build context contents:\n${tempContents}`);
-
-        // Clean up source dir
-        execSync(`rm -rf ${sourceDir}`, { stdio: 'pipe' });
+      // Pick a build strategy; files the repository ships (its Dockerfile included) are kept
+      plan = BuildStrategyService.select(tempDir, {
+        ...ManifestService.toBuildSettings(manifest),
+        cacheId: cache?.id,
+      });
+      if (plan.strategy === 'dockerfile' && (manifest?.build || manifest?.start)) {
+        onOutput?.(
+          `The repository has a Dockerfile, so build commands and start from ${loaded?.file} are ignored`
+        );
       }
+      const generated = BuildStrategyService.writeFiles(plan, tempDir);
+      const strategyLine =
+        `Build strategy: ${plan.strategy} (framework ${plan.framework}, port ${plan.port}` +
+        (plan.details ? `, ${plan.details})` : ')') +
+        (generated.length > 0 ? `; generated ${generated.join(', ')}` : '');
+      console.log(`[Docker] ${strategyLine}`);
+      onOutput?.(strategyLine);
+      console.log(`[Docker] Build context contents: ${fs.readdirSync(tempDir).join(', ')}`);
 
       // Build Docker image using docker CLI
+      // BuildKit's plain progress output names every Dockerfile step ("#7 [2/5] RUN ...")
+      // and reports the ones served from the layer cache ("#7 CACHED")
       console.log(`[Docker] Building Docker image from Dockerfile...`);
+      const steps = new Set<string>();
+      const cachedSteps = new Set<string>();
       try {
-        execSync(`docker build -t ${imageName} ${tempDir}`, {
-          stdio: 'pipe',
-        });
+        await runCommand(
+          'docker',
+          [
+            'build',
+            '--progress=plain',
+            ...(cache?.noCache ? ['--no-cache'] : []),
+            '-t',
+            imageName,
+            tempDir,
+          ],
+          {
+            timeoutMs: config.builds.buildTimeoutSeconds * 1000,
+            onOutput: (line) => {
+              const step = line.match(/^#(\d+) \[[^\]]*\d+\/\d+\]/);
+              if (step) {
+                steps.add(step[1]);
+              }
+              const cached = line.match(/^#(\d+) CACHED$/);
+              if (cached) {
+                cachedSteps.add(cached[1]);
+              }
+              onOutput?.(line);
+            },
+          }
+        );
         console.log(`[Docker] Image built successfully: ${imageName}`);
       } catch (buildError) {
         console.error(`[Docker] Docker build failed:`, buildError);
-        // Show docker build output for debugging
-        try {
-          execSync(`docker build -t ${imageName} ${tempDir}`, {
-            stdio: 'inherit',
-          });
-        } catch (_) {
-          // Ignore
-        }
         throw new Error(`Failed to build Docker image: ${buildError}`);
       }
 
-      // Cleanup
-      fs.rmSync(tempDir, { recursive: true, force: true });
+      await cleanup();
 
       return {
         imageId: imageName,
         imageName,
-        framework,
+        plan,
+        manifest,
+        commit,
+        cacheUsage: {
+          workspaceHit,
+          workspaceSizeBytes,
+          layersCached: [...cachedSteps].filter((step) => steps.has(step)).length,
+          layersTotal: steps.size,
+        },
       };
     } catch (error) {
       console.error('[Docker] Build failed:', error);
-      // Cleanup on error
-      try {
-        fs.rmSync(tempDir, { recursive: true, force: true });
-      } catch (e) {
-        // ignore cleanup errors
-      }
-      throw new Error(`Failed to build Docker image: ${error}`);
-    }
-  }
-
-  /**
-   * Generate Dockerfile based on framework
-   */
-  private static generateDockerfile(framework: string): string {
-    switch (framework) {
-      case 'react':
-        return `
-FROM node:18-alpine AS builder
-WORKDIR /app
-COPY package*.json ./
-RUN npm ci --only=production && npm ci --only=development
-COPY . .
-RUN npm run build
-RUN npm prune --production
-
-FROM nginx:alpine
-COPY --from=builder /app/dist /usr/share/nginx/html
-COPY nginx.conf /etc/nginx/conf.d/app.conf
-EXPOSE 80
-CMD ["nginx", "-g", "daemon off;"]
-        `.trim();
-
-      case 'next':
-        return `
-FROM node:18-alpine AS builder
-WORKDIR /app
-COPY package*.json ./
-RUN npm ci
-COPY . .
-RUN npm run build
-
-FROM node:18-alpine
-WORKDIR /app
-RUN addgroup -g 1001 -S nodejs && adduser -S nextjs -u 1001
-COPY --from=builder /app/public ./public
-COPY --from=builder /app/.next/standalone ./
-COPY --from=builder /app/.next/static ./.next/static
-COPY --from=builder /app/package*.json ./
-RUN npm ci --only=production
-USER nextjs
-EXPOSE 3000
-CMD ["node", "server.js"]
-        `.trim();
-
-      case 'express':
-        return `
-FROM node:18-alpine
-WORKDIR /app
-COPY package*.json ./
-RUN npm ci --only=production
-COPY . .
-USER node
-EXPOSE 3000
-CMD ["npm", "start"]
-        `.trim();
-
-      default:
-        // Generic Node.js app
-        return `
-FROM node:18-alpine
-WORKDIR /app
-COPY package*.json ./
-RUN npm ci --only=production
-COPY . .
-EXPOSE 3000
-CMD ["npm", "start"]
-        `.trim();
+      // Cleanup on error; the error already says what failed (checkout, manifest or build)
+      await cleanup();
+      throw error;
     }
   }
 
   /**
    * Run Docker container for deployment
-   * Starts a container with specified image and environment variables
+   * Starts a new container alongside any container already serving the environment;
+   * the old one is only removed by drainOldContainers() after traffic has switched
    */
   static async runContainer(
     imageName: string,
     projectId: string,
     environmentId: string,
+    deploymentId: string,
     envVariables: Record<string, string> = {},
-    framework: string = 'node'
+    containerPort: number = 3000
   ): Promise<{ containerId: string; port: number }> {
+    const port = await PortAllocatorService.reserve(deploymentId);
+
     try {
-      const port = this.allocatePort();
-      const containerName = `gilgal-${projectId}-${environmentId.substring(0, 8)}`;
+      const containerName = `gilgal-${projectId}-${environmentId.substring(0, 8)}-${deploymentId.substring(0, 8)}`;
 
       console.log(`[Docker] Creating container: ${containerName}`);
 
-      // Stop and remove old container with same name if it exists
-      try {
-        const oldContainer = docker.getContainer(containerName);
-        const containerData = await oldContainer.inspect();
-        if (containerData) {
-          console.log(`[Docker] Stopping old container: ${containerName}`);
-          await oldContainer.stop({ t: 5 }).catch(() => {
-            // Container may already be stopped
-          });
-          console.log(`[Docker] Removing old container: ${containerName}`);
-          await oldContainer.remove();
-          console.log(`[Docker] Old container removed`);
-        }
-      } catch (error) {
-        // Container doesn't exist, continue
-      }
-
-      // Determine container port based on framework
-      const containerPort = framework === 'react' || framework === 'next' ? 80 : 3000;
-
       // Convert env variables to array format for Docker
       const env = Object.entries(envVariables).map(([key, value]) => `${key}=${value}`);
       env.push('NODE_ENV=production');
@@ -395,10 +274,12 @@ CMD ["npm", "start"]
         Labels: {
           'gilgal.projectId': projectId,
           'gilgal.environmentId': environmentId,
-          'gilgal.deploymentId': containerName,
+          'gilgal.deploymentId': deploymentId,
         },
       });
 
+      await PortAllocatorService.attachContainer(port, container.id);
+
       // Start the container
       await container.start();
 
@@ -410,10 +291,141 @@ CMD ["npm", "start"]
       };
     } catch (error) {
       console.error('[Docker] Container run failed:', error);
+      await PortAllocatorService.release(port).catch(() => {
+        // Stale reservations are reclaimed on the next allocation
+      });
       throw new Error(`Failed to run Docker container: ${error}`);
     }
   }
 
+  /**
+   * Run one of a manifest's extra process types (e.g. a queue worker) from a deployment's image
+   * It gets the same environment as the web container but no port
+   */
+  static async runProcessContainer(
+    imageName: string,
+    projectId: string,
+    environmentId: string,
+    deploymentId: string,
+    processName: string,
+    command: string,
+    envVariables: Record<string, string> = {}
+  ): Promise<string> {
+    const containerName = `gilgal-${projectId}-${environmentId.substring(0, 8)}-${deploymentId.substring(0, 8)}-${processName}`;
+    console.log(`[Docker] Creating ${processName} process container: ${containerName}`);
+
+    const env = Object.entries(envVariables).map(([key, value]) => `${key}=${value}`);
+    env.push('NODE_ENV=production');
+
+    try {
+      const container = await docker.createContainer({
+        Image: imageName,
+        name: containerName,
+        Env: env,
+        // Replaces the image's entrypoint too, so the command runs the same in every image
+        Entrypoint: ['/bin/sh', '-c'],
+        Cmd: [command],
+        HostConfig: {
+          Memory: 512 * 1024 * 1024, // 512MB
+          MemorySwap: 1024 * 1024 * 1024, // 1GB
+          CpuShares: 1024,
+          RestartPolicy: {
+            Name: 'on-failure',
+            MaximumRetryCount: 5,
+          },
+        },
+        Labels: {
+          'gilgal.projectId': projectId,
+          'gilgal.environmentId': environmentId,
+          'gilgal.deploymentId': deploymentId,
+          'gilgal.process': processName,
+        },
+      });
+
+      await container.start();
+      console.log(`[Docker] Process container started: ${container.id} (${processName})`);
+
+      return container.id;
+    } catch (error) {
+      console.error('[Docker] Process container run failed:', error);
+      throw new Error(`Failed to run ${processName} process container: ${error}`);
+    }
+  }
+
+  /**
+   * Stop and remove the extra process containers started for a deployment
+   */
+  static async stopProcessContainers(deploymentId: string): Promise<string[]> {
+    const containers = await docker.listContainers({
+      all: true,
+      filters: { label: [`gilgal.deploymentId=${deploymentId}`, 'gilgal.process'] },
+    });
+
+    for (const container of containers) {
+      await this.stopContainer(container.Id);
+    }
+
+    return containers.map((c) => c.Id);
+  }
+
+  /**
+   * Get whether a container is still running and its exit code if not, and its IP address
+   * on the Docker network
+   */
+  static async getContainerState(
+    containerId: string
+  ): Promise<{ running: boolean; exitCode: number; ipAddress?: string }> {
+    const data = await docker.getContainer(containerId).inspect();
+    const ipAddress =
+      data.NetworkSettings.IPAddress ||
+      Object.values(data.NetworkSettings.Networks || {}).find((network) => network.IPAddress)
+        ?.IPAddress;
+    return { running: data.State.Running, exitCode: data.State.ExitCode, ipAddress };
+  }
+
+  /**
+   * Drain and remove the containers previously serving an environment
+   * Waits for in-flight requests to finish before stopping them
+   * Every container of keepDeploymentId (web and process containers) is kept, and so are
+   * containers created after them, which belong to deployments still in flight
+   */
+  static async drainOldContainers(
+    projectId: string,
+    environmentId: string,
+    keepDeploymentId: string,
+    drainSeconds: number = config.rollout.drainSeconds
+  ): Promise<string[]> {
+    const containers = await docker.listContainers({
+      all: true,
+      filters: {
+        label: [`gilgal.projectId=${projectId}`, `gilgal.environmentId=${environmentId}`],
+      },
+    });
+
+    const kept = containers.filter((c) => c.Labels['gilgal.deploymentId'] === keepDeploymentId);
+    if (kept.length === 0) {
+      return [];
+    }
+    const keptSince = Math.min(...kept.map((c) => c.Created));
+    const oldContainers = containers.filter(
+      (c) => c.Labels['gilgal.deploymentId'] !== keepDeploymentId && c.Created < keptSince
+    );
+    if (oldContainers.length === 0) {
+      return [];
+    }
+
+    console.log(
+      `[Docker] Draining ${oldContainers.length} old container(s) for ${drainSeconds}s before removal`
+    );
+    await new Promise((resolve) => setTimeout(resolve, drainSeconds * 1000));
+
+    for (const old of oldContainers) {
+      await this.stopContainer(old.Id);
+    }
+
+    return oldContainers.map((c) => c.Id);
+  }
+
   /**
    * Stop Docker container
    */
@@ -441,6 +453,9 @@ CMD ["npm", "start"]
       } catch (removeError) {
         console.log(`[Docker] Could not remove container: ${containerId}`);
       }
+
+      // Hand its host port back to the pool
+      await PortAllocatorService.releaseByContainer(containerId);
     } catch (error) {
       console.error('[Docker] Stop failed:', error);
       throw new Error(`Failed to stop Docker container: ${error}`);
@@ -462,8 +477,8 @@ CMD ["npm", "start"]
         tail: lines,
       });
 
-      // Convert stream to string
-      return logStream.toString();
+      // Non-TTY containers multiplex stdout/stderr into 8-byte-header frames
+      return this.demuxLogs(logStream);
     } catch (error) {
       console.error('[Docker] Log fetch failed:', error);
       // Return error log instead of throwing
@@ -471,6 +486,27 @@ CMD ["npm", "start"]
     }
   }
 
+  /**
+   * Strip Docker's stream multiplexing headers from a log buffer
+   * Falls back to the raw text if the buffer isn't framed (TTY containers)
+   */
+  private static demuxLogs(buffer: Buffer): string {
+    const chunks: string[] = [];
+    let offset = 0;
+
+    while (offset + 8 <= buffer.length) {
+      const streamType = buffer[offset];
+      const size = buffer.readUInt32BE(offset + 4);
+      if (streamType > 2 || offset + 8 + size > buffer.length) {
+        return buffer.toString();
+      }
+      chunks.push(buffer.subarray(offset + 8, offset + 8 + size).toString());
+      offset += 8 + size;
+    }
+
+    return offset === buffer.length ? chunks.join('') : buffer.toString();
+  }
+
   /**
    * Remove Docker image
    */
@@ -488,6 +524,18 @@ CMD ["npm", "start"]
     }
   }
 
+  /**
+   * Check whether an image is still present on the Docker host
+   */
+  static async imageExists(imageName: string): Promise<boolean> {
+    try {
+      await docker.getImage(imageName).inspect();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Get container health status
    */
@@ -522,16 +570,6 @@ CMD ["npm", "start"]
     }
   }
 
-  /**
-   * Allocate an available port for container
-   * Checks available ports and allocates the next free one
-   */
-  private static allocatePort(): number {
-    const basePort = 8000;
-    const randomOffset = Math.floor(Math.random() * 1000);
-    return basePort + randomOffset;
-  }
-
   /**
    * Get Docker daemon info
    */
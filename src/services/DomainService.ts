@@ -0,0 +1,257 @@
+import { Resolver } from 'dns/promises';
+import crypto from 'crypto';
+import config from '../config';
+import { query } from '../database';
+import { DomainVerification } from '../types';
+import { HTTP_STATUS, ERROR_CODES, DOMAIN_STATUS } from '../constants';
+import { ApiError } from '../utils/error';
+import { EnvironmentService } from './EnvironmentService';
+import { ProxyService } from './ProxyService';
+import { CertificateService } from './CertificateService';
+
+interface EnvironmentDomainRow {
+  id: string;
+  domain: string | null;
+  domain_status: 'pending' | 'verified' | 'failed' | null;
+  domain_verification_token: string | null;
+  domain_verified_at: Date | null;
+  domain_checked_at: Date | null;
+  domain_verification_error: string | null;
+}
+
+/**
+ * Domain Service
+ * Custom domain onboarding: issues a DNS challenge token per domain and verifies
+ * ownership before the domain is routed by the reverse proxy
+ */
+export class DomainService {
+  private static readonly PLATFORM_DOMAIN = 'gilgal.tech';
+  private static readonly CHALLENGE_PREFIX = '_gilgal-challenge';
+  private static readonly DOMAIN_PATTERN =
+    /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+  /**
+   * Validate and canonicalize a user supplied domain
+   */
+  static normalizeDomain(input: unknown): string {
+    const domain = typeof input === 'string' ? input.trim().toLowerCase().replace(/\.$/, '') : '';
+
+    if (!this.DOMAIN_PATTERN.test(domain)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Domain must be a valid hostname (e.g. app.example.com)'
+      );
+    }
+
+    if (domain === this.PLATFORM_DOMAIN || domain.endsWith(`.${this.PLATFORM_DOMAIN}`)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        `Domains under ${this.PLATFORM_DOMAIN} are assigned automatically`
+      );
+    }
+
+    return domain;
+  }
+
+  /**
+   * Make sure no other environment has claimed the domain
+   */
+  static async assertDomainAvailable(domain: string, environmentId?: string): Promise<void> {
+    const result = await query(
+      'SELECT id FROM environments WHERE domain = $1 AND ($2::uuid IS NULL OR id <> $2::uuid)',
+      [domain, environmentId || null]
+    );
+
+    if (result.rowCount > 0) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_CODES.DOMAIN_ALREADY_IN_USE,
+        `Domain ${domain} is already attached to another environment`
+      );
+    }
+  }
+
+  /**
+   * Generate a fresh challenge token for a newly attached domain
+   */
+  static generateToken(): string {
+    return crypto.randomBytes(16).toString('hex');
+  }
+
+  /**
+   * Get the verification status and DNS records for an environment's domain
+   */
+  static async getDomainVerification(
+    environmentId: string,
+    userId: string
+  ): Promise<DomainVerification> {
+    const row = await this.getDomainRow(environmentId, userId);
+    return this.withCertificate(this.toVerification(row));
+  }
+
+  /**
+   * Look up the challenge records and mark the domain verified or failed
+   * A newly verified domain is added to the proxy config straight away and
+   * queued for a TLS certificate
+   */
+  static async verifyDomain(environmentId: string, userId: string): Promise<DomainVerification> {
+    const row = await this.getDomainRow(environmentId, userId);
+
+    if (row.domain_status === DOMAIN_STATUS.VERIFIED) {
+      return this.withCertificate(this.toVerification(row));
+    }
+
+    const verification = this.toVerification(row);
+    const check = await this.checkDns(verification);
+
+    const result = await query<EnvironmentDomainRow>(
+      `
+      UPDATE environments
+      SET domain_status = $1::varchar,
+          domain_verified_at = CASE WHEN $1::varchar = 'verified' THEN CURRENT_TIMESTAMP ELSE NULL END,
+          domain_checked_at = CURRENT_TIMESTAMP,
+          domain_verification_error = $2,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = $3 AND domain = $4
+      RETURNING id, domain, domain_status, domain_verification_token, domain_verified_at,
+                domain_checked_at, domain_verification_error
+      `,
+      [
+        check.verified ? DOMAIN_STATUS.VERIFIED : DOMAIN_STATUS.FAILED,
+        check.verified ? null : check.reason,
+        environmentId,
+        row.domain,
+      ]
+    );
+
+    if (result.rowCount === 0) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Domain changed while it was being verified'
+      );
+    }
+
+    if (check.verified) {
+      console.log(`[Domains] Verified ${row.domain} for environment ${environmentId}`);
+      try {
+        await ProxyService.applyConfig();
+      } catch (error) {
+        console.error(`[Domains] Failed to apply proxy config for ${row.domain}:`, error);
+      }
+      await CertificateService.requestCertificate(row.domain);
+    } else {
+      console.log(`[Domains] Verification failed for ${row.domain}: ${check.reason}`);
+    }
+
+    return this.withCertificate(this.toVerification(result.rows[0]));
+  }
+
+  /**
+   * Attach the domain's certificate status, if one has been requested
+   */
+  private static async withCertificate(
+    verification: DomainVerification
+  ): Promise<DomainVerification> {
+    const certificate = await CertificateService.getCertificate(verification.domain);
+    return certificate ? { ...verification, certificate } : verification;
+  }
+
+  /**
+   * Load an environment's domain columns, verifying ownership
+   */
+  private static async getDomainRow(
+    environmentId: string,
+    userId: string
+  ): Promise<EnvironmentDomainRow & { domain: string; domain_verification_token: string }> {
+    await EnvironmentService.getEnvironment(environmentId, userId);
+
+    const result = await query<EnvironmentDomainRow>(
+      `
+      SELECT id, domain, domain_status, domain_verification_token, domain_verified_at,
+             domain_checked_at, domain_verification_error
+      FROM environments
+      WHERE id = $1
+      `,
+      [environmentId]
+    );
+
+    const row = result.rows[0];
+    if (!row?.domain || !row.domain_verification_token) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND,
+        'Environment has no custom domain'
+      );
+    }
+
+    return row as EnvironmentDomainRow & { domain: string; domain_verification_token: string };
+  }
+
+  /**
+   * Build the API representation including the records the user has to create
+   */
+  private static toVerification(row: EnvironmentDomainRow): DomainVerification {
+    const domain = row.domain as string;
+    const token = row.domain_verification_token as string;
+    const challengeName = `${this.CHALLENGE_PREFIX}.${domain}`;
+
+    return {
+      domain,
+      status: row.domain_status || 'pending',
+      verifiedAt: row.domain_verified_at || undefined,
+      lastCheckedAt: row.domain_checked_at || undefined,
+      lastError: row.domain_verification_error || undefined,
+      records: {
+        txt: { name: challengeName, value: `gilgal-verification=${token}` },
+        cname: { name: challengeName, value: `${token}.verify.${this.PLATFORM_DOMAIN}` },
+      },
+    };
+  }
+
+  /**
+   * Resolve the challenge name and look for either the TXT value or the CNAME target
+   */
+  private static async checkDns(
+    verification: DomainVerification
+  ): Promise<{ verified: boolean; reason: string }> {
+    const resolver = new Resolver({ timeout: config.domains.dnsTimeoutMs, tries: 2 });
+    if (config.domains.dnsServers.length > 0) {
+      resolver.setServers(config.domains.dnsServers);
+    }
+
+    const { txt, cname } = verification.records;
+    const failures: string[] = [];
+
+    try {
+      const records = await resolver.resolveTxt(txt.name);
+      if (records.some((chunks) => chunks.join('') === txt.value)) {
+        return { verified: true, reason: '' };
+      }
+      failures.push(`TXT ${txt.name} does not contain the expected value`);
+    } catch (error) {
+      failures.push(`TXT lookup failed (${this.describeDnsError(error)})`);
+    }
+
+    try {
+      const targets = await resolver.resolveCname(cname.name);
+      if (targets.some((target) => target.toLowerCase().replace(/\.$/, '') === cname.value)) {
+        return { verified: true, reason: '' };
+      }
+      failures.push(`CNAME ${cname.name} points to ${targets.join(', ')}`);
+    } catch (error) {
+      failures.push(`CNAME lookup failed (${this.describeDnsError(error)})`);
+    }
+
+    return { verified: false, reason: failures.join('; ') };
+  }
+
+  private static describeDnsError(error: unknown): string {
+    if (error && typeof error === 'object' && 'code' in error) {
+      return String((error as { code: unknown }).code);
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+}
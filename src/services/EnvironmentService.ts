@@ -1,7 +1,19 @@
 import { query } from '../database';
 import { Environment, CreateEnvironmentRequest } from '../types';
-import { HTTP_STATUS, ERROR_CODES } from '../constants';
+import {
+  HTTP_STATUS,
+  ERROR_CODES,
+  DOMAIN_STATUS,
+  VARIABLE_IMPORT_MODES,
+  VARIABLE_EXPORT_FORMATS,
+} from '../constants';
 import { ApiError } from '../utils/error';
+import { DotenvParseError, formatDotenv, formatShellExports, parseDotenv } from '../utils/dotenv';
+import { isValidBranchPattern } from '../utils/branch';
+import { HealthCheckService } from './HealthCheckService';
+import { DomainService } from './DomainService';
+import { SecretService } from './SecretService';
+import { VariableRevisionService } from './VariableRevisionService';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -9,6 +21,9 @@ import { v4 as uuidv4 } from 'uuid';
  * Manages deployment environments (production, staging, development) for projects
  */
 export class EnvironmentService {
+  // Environment names end up in hostnames and in comments of the generated proxy config
+  private static readonly NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ._-]{0,49}$/;
+
   /**
    * Create a new environment for a project
    */
@@ -23,21 +38,39 @@ export class EnvironmentService {
       throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.PROJECT_NOT_FOUND, 'Project not found');
     }
 
+    this.validateName(data.name);
+
     const environmentId = uuidv4();
 
+    // Custom domains start out pending until their DNS challenge is verified
+    const domain = data.domain ? DomainService.normalizeDomain(data.domain) : null;
+    if (domain) {
+      await DomainService.assertDomainAvailable(domain);
+    }
+
+    this.validateVariables(data.environmentVariables, data.secrets, []);
+
     const result = await query<Environment>(
       `
-      INSERT INTO environments (id, project_id, name, type, domain, environment_variables)
-      VALUES ($1, $2, $3, $4, $5, $6)
-      RETURNING id, project_id, name, type, domain, environment_variables, created_at, updated_at
+      INSERT INTO environments (id, project_id, name, type, domain, domain_status,
+                                domain_verification_token, branch_patterns,
+                                environment_variables, health_check)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING id, project_id, name, type, domain, domain_status, domain_verification_token,
+                domain_verified_at, branch_patterns, environment_variables, health_check,
+                created_at, updated_at
       `,
       [
         environmentId,
         projectId,
         data.name,
         data.type,
-        data.domain || null,
+        domain,
+        domain ? DOMAIN_STATUS.PENDING : null,
+        domain ? DomainService.generateToken() : null,
+        this.normalizeBranchPatterns(data.branchPatterns || []),
         JSON.stringify(data.environmentVariables || {}),
+        data.healthCheck ? JSON.stringify(HealthCheckService.normalize(data.healthCheck)) : null,
       ]
     );
 
@@ -49,7 +82,13 @@ export class EnvironmentService {
       );
     }
 
-    return result.rows[0];
+    if (data.secrets) {
+      await SecretService.setSecrets(environmentId, data.secrets);
+    }
+    await VariableRevisionService.recordRevision(environmentId, userId);
+
+    const [environment] = await this.withSecrets(result.rows);
+    return environment;
   }
 
   /**
@@ -68,7 +107,9 @@ export class EnvironmentService {
 
     const result = await query<Environment>(
       `
-      SELECT id, project_id, name, type, domain, environment_variables, created_at, updated_at
+      SELECT id, project_id, name, type, domain, domain_status, domain_verification_token,
+             domain_verified_at, branch_patterns, environment_variables, health_check,
+             created_at, updated_at
       FROM environments
       WHERE project_id = $1 AND deleted_at IS NULL
       ORDER BY created_at ASC
@@ -76,7 +117,7 @@ export class EnvironmentService {
       [projectId]
     );
 
-    return result.rows;
+    return this.withSecrets(result.rows);
   }
 
   /**
@@ -85,7 +126,9 @@ export class EnvironmentService {
   static async getEnvironment(environmentId: string, userId: string): Promise<Environment> {
     const result = await query<Environment>(
       `
-      SELECT e.id, e.project_id, e.name, e.type, e.domain, e.environment_variables, e.created_at, e.updated_at
+      SELECT e.id, e.project_id, e.name, e.type, e.domain, e.domain_status,
+             e.domain_verification_token, e.domain_verified_at, e.branch_patterns,
+             e.environment_variables, e.health_check, e.created_at, e.updated_at
       FROM environments e
       JOIN projects p ON e.project_id = p.id
       WHERE e.id = $1 AND p.user_id = $2 AND e.deleted_at IS NULL
@@ -97,7 +140,8 @@ export class EnvironmentService {
       throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.NOT_FOUND, 'Environment not found');
     }
 
-    return result.rows[0];
+    const [environment] = await this.withSecrets(result.rows);
+    return environment;
   }
 
   /**
@@ -109,26 +153,79 @@ export class EnvironmentService {
     data: Partial<CreateEnvironmentRequest>
   ): Promise<Environment> {
     // Verify ownership
-    await this.getEnvironment(environmentId, userId);
+    const current = await this.getEnvironment(environmentId, userId);
 
     const updates: string[] = [];
     const values: any[] = [];
     let paramCount = 1;
 
     if (data.name !== undefined) {
+      this.validateName(data.name);
       updates.push(`name = $${paramCount++}`);
       values.push(data.name);
     }
     if (data.domain !== undefined) {
-      updates.push(`domain = $${paramCount++}`);
-      values.push(data.domain);
+      const domain = data.domain ? DomainService.normalizeDomain(data.domain) : null;
+
+      // A new domain needs a fresh challenge; removing it clears verification state
+      if (domain !== current.domain) {
+        if (domain) {
+          await DomainService.assertDomainAvailable(domain, environmentId);
+        }
+        updates.push(`domain = $${paramCount++}`);
+        values.push(domain);
+        updates.push(`domain_status = $${paramCount++}`);
+        values.push(domain ? DOMAIN_STATUS.PENDING : null);
+        updates.push(`domain_verification_token = $${paramCount++}`);
+        values.push(domain ? DomainService.generateToken() : null);
+        updates.push(
+          'domain_verified_at = NULL',
+          'domain_checked_at = NULL',
+          'domain_verification_error = NULL'
+        );
+      }
     }
+    if (data.branchPatterns !== undefined) {
+      updates.push(`branch_patterns = $${paramCount++}`);
+      values.push(this.normalizeBranchPatterns(data.branchPatterns));
+    }
+
+    this.validateVariables(
+      data.environmentVariables,
+      data.secrets,
+      Object.keys(current.secrets || {})
+    );
+
+    // Storing a secret replaces any plain variable of the same name
+    const secretKeys = Object.entries(data.secrets || {})
+      .filter(([, value]) => value !== null)
+      .map(([key]) => key);
+
     if (data.environmentVariables !== undefined) {
       updates.push(`environment_variables = $${paramCount++}`);
       values.push(JSON.stringify(data.environmentVariables));
+    } else if (secretKeys.length > 0) {
+      updates.push(`environment_variables = environment_variables - $${paramCount++}::text[]`);
+      values.push(secretKeys);
+    }
+    if (data.healthCheck !== undefined) {
+      // null clears the probe and falls back to the default TCP readiness check
+      updates.push(`health_check = $${paramCount++}`);
+      values.push(
+        data.healthCheck ? JSON.stringify(HealthCheckService.normalize(data.healthCheck)) : null
+      );
+    }
+
+    if (data.secrets) {
+      await SecretService.setSecrets(environmentId, data.secrets);
     }
 
+    const variablesChanged = data.environmentVariables !== undefined || data.secrets !== undefined;
+
     if (updates.length === 0) {
+      if (variablesChanged) {
+        await VariableRevisionService.recordRevision(environmentId, userId);
+      }
       return this.getEnvironment(environmentId, userId);
     }
 
@@ -140,7 +237,9 @@ export class EnvironmentService {
       UPDATE environments
       SET ${updates.join(', ')}
       WHERE id = $${paramCount}
-      RETURNING id, project_id, name, type, domain, environment_variables, created_at, updated_at
+      RETURNING id, project_id, name, type, domain, domain_status, domain_verification_token,
+                domain_verified_at, branch_patterns, environment_variables, health_check,
+                created_at, updated_at
       `,
       values
     );
@@ -149,7 +248,13 @@ export class EnvironmentService {
       throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.NOT_FOUND, 'Environment not found');
     }
 
-    return result.rows[0];
+    // Saved as a new revision only if variables or secrets actually changed
+    if (variablesChanged) {
+      await VariableRevisionService.recordRevision(environmentId, userId);
+    }
+
+    const [environment] = await this.withSecrets(result.rows);
+    return environment;
   }
 
   /**
@@ -159,8 +264,14 @@ export class EnvironmentService {
     // Verify ownership
     await this.getEnvironment(environmentId, userId);
 
+    // Release the custom domain so another environment can claim it
     const result = await query(
-      'UPDATE environments SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1',
+      `
+      UPDATE environments
+      SET deleted_at = CURRENT_TIMESTAMP, domain = NULL, domain_status = NULL,
+          domain_verification_token = NULL
+      WHERE id = $1
+      `,
       [environmentId]
     );
 
@@ -168,4 +279,186 @@ export class EnvironmentService {
       throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.NOT_FOUND, 'Environment not found');
     }
   }
+
+  /**
+   * Import variables from dotenv text
+   * merge keeps existing variables and overrides imported ones; replace drops variables
+   * missing from the file. Secrets are never touched by an import
+   */
+  static async importVariables(
+    environmentId: string,
+    userId: string,
+    content: string,
+    mode: string = VARIABLE_IMPORT_MODES.MERGE
+  ): Promise<Environment> {
+    if (!Object.values(VARIABLE_IMPORT_MODES).includes(mode)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        `Invalid import mode (expected ${Object.values(VARIABLE_IMPORT_MODES).join(' or ')})`
+      );
+    }
+
+    let imported: Record<string, string>;
+    try {
+      imported = parseDotenv(content);
+    } catch (error) {
+      if (error instanceof DotenvParseError) {
+        throw new ApiError(HTTP_STATUS.BAD_REQUEST, ERROR_CODES.VALIDATION_ERROR, error.message);
+      }
+      throw error;
+    }
+
+    await this.getEnvironment(environmentId, userId);
+    const existing = await this.getVariables(environmentId);
+
+    return this.updateEnvironment(environmentId, userId, {
+      environmentVariables:
+        mode === VARIABLE_IMPORT_MODES.REPLACE ? imported : { ...existing, ...imported },
+    });
+  }
+
+  /**
+   * Export plain variables as a dotenv file, JSON or shell exports
+   * Secret values are write-only, so secrets are only listed by name in a comment
+   */
+  static async exportVariables(
+    environmentId: string,
+    userId: string,
+    format: string = VARIABLE_EXPORT_FORMATS.ENV
+  ): Promise<{ content: string; contentType: string; filename: string }> {
+    const environment = await this.getEnvironment(environmentId, userId);
+    const variables = await this.getVariables(environmentId);
+    const secretKeys = Object.keys(environment.secrets || {});
+    const header = [
+      `Environment: ${environment.name}`,
+      ...(secretKeys.length > 0 ? [`Secrets not exported: ${secretKeys.join(', ')}`] : []),
+    ];
+    const basename = environment.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+    switch (format) {
+      case VARIABLE_EXPORT_FORMATS.ENV:
+        return {
+          content: formatDotenv(variables, header),
+          contentType: 'text/plain',
+          filename: `${basename}.env`,
+        };
+      case VARIABLE_EXPORT_FORMATS.JSON:
+        return {
+          content: `${JSON.stringify(variables, null, 2)}\n`,
+          contentType: 'application/json',
+          filename: `${basename}.json`,
+        };
+      case VARIABLE_EXPORT_FORMATS.SHELL:
+        return {
+          content: formatShellExports(variables, header),
+          contentType: 'text/x-shellscript',
+          filename: `${basename}.sh`,
+        };
+      default:
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          `Invalid export format (expected ${Object.values(VARIABLE_EXPORT_FORMATS).join(', ')})`
+        );
+    }
+  }
+
+  /**
+   * An environment's own plain variables (no ownership check)
+   */
+  static async getVariables(environmentId: string): Promise<Record<string, string>> {
+    const result = await query<{ environment_variables: Record<string, string> | null }>(
+      'SELECT environment_variables FROM environments WHERE id = $1',
+      [environmentId]
+    );
+
+    return result.rows[0]?.environment_variables || {};
+  }
+
+  /**
+   * Validate and de-duplicate the branch patterns an environment tracks for push webhooks
+   */
+  private static normalizeBranchPatterns(patterns: unknown): string[] {
+    if (!Array.isArray(patterns)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        'branchPatterns must be an array of branch names or patterns'
+      );
+    }
+
+    const invalid = patterns.filter(
+      (pattern) => typeof pattern !== 'string' || !isValidBranchPattern(pattern.trim())
+    );
+    if (invalid.length > 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        `Invalid branch pattern(s): ${invalid.map((pattern) => JSON.stringify(pattern)).join(', ')}`
+      );
+    }
+
+    return [...new Set(patterns.map((pattern: string) => pattern.trim()))];
+  }
+
+  private static validateName(name: unknown): void {
+    if (typeof name !== 'string' || !this.NAME_PATTERN.test(name)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Environment name must be 1-50 letters, digits, spaces, dots, dashes or underscores, ' +
+          'starting with a letter or digit'
+      );
+    }
+  }
+
+  /**
+   * Reject a request that would make a name both a plain variable and a secret
+   */
+  private static validateVariables(
+    environmentVariables: Record<string, string> | undefined,
+    secrets: Record<string, string | null> | undefined,
+    existingSecretKeys: string[]
+  ): void {
+    if (secrets !== undefined) {
+      SecretService.validateSecrets(secrets);
+    }
+
+    if (!environmentVariables) {
+      return;
+    }
+
+    const secretKeys = new Set(existingSecretKeys);
+    for (const [key, value] of Object.entries(secrets || {})) {
+      if (value === null) {
+        secretKeys.delete(key);
+      } else {
+        secretKeys.add(key);
+      }
+    }
+
+    const conflicts = Object.keys(environmentVariables).filter((key) => secretKeys.has(key));
+    if (conflicts.length > 0) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        `Already stored as secrets, update them through secrets instead: ${conflicts.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Attach masked secrets to environments; values never leave SecretService
+   */
+  private static async withSecrets(environments: Environment[]): Promise<Environment[]> {
+    const secretKeys = await SecretService.getSecretKeys(
+      environments.map((environment) => environment.id)
+    );
+
+    return environments.map((environment) => ({
+      ...environment,
+      secrets: SecretService.mask(secretKeys.get(environment.id) || []),
+    }));
+  }
 }
@@ -121,7 +121,7 @@ export class GitHubOAuthService {
       body: JSON.stringify({
         name: 'web',
         active: true,
-        events: ['push'],
+        events: ['push', 'pull_request'],
         config: {
           url: webhookUrl,
           content_type: 'json',
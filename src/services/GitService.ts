@@ -0,0 +1,314 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import config from '../config';
+import { CommandError, runCommand } from '../utils/command';
+import { hasControlChars } from '../utils/text';
+
+export interface CommitInfo {
+  sha: string;
+  message: string;
+  author: string;
+}
+
+/**
+ * Credentials for fetching a private repository: a GitHub token (HTTPS) or an SSH deploy key
+ */
+export type GitCredentials =
+  | { type: 'token'; token: string }
+  | { type: 'deploy-key'; privateKey: string };
+
+/**
+ * How git is invoked for one fetch: the remote URL, extra environment carrying the
+ * credential, and the strings that must never show up in an error message
+ */
+interface GitSession {
+  url: string;
+  env: NodeJS.ProcessEnv;
+  secrets: string[];
+  cleanup: () => void;
+}
+
+/**
+ * Git Service
+ * Fetches exactly the commit a deployment asks for (branch, tag or SHA) with a shallow
+ * fetch into a long-lived bare repository, reads the real commit metadata from it and
+ * checks it out as a worktree
+ * Credentials are handed to git through its environment (never the URL or arguments) and
+ * are scrubbed from every error message
+ */
+export class GitService {
+  // Branch/tag names or SHAs; rejects option-like refs and `..` ranges
+  private static readonly REF_PATTERN = /^(?!-)(?!.*\.\.)[A-Za-z0-9._/+-]+$/;
+  private static readonly SHORT_SHA_PATTERN = /^[0-9a-f]{7,39}$/i;
+  // Published SSH host keys of the hosted git services; other hosts need their keys in
+  // GIT_SSH_KNOWN_HOSTS_FILE
+  private static readonly KNOWN_HOSTS = [
+    'github.com ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIOMqqnkVzrm0SdG6UOoqKLsabgH5C9okWi0dh2l9GKJl',
+    'github.com ecdsa-sha2-nistp256 AAAAE2VjZHNhLXNoYTItbmlzdHAyNTYAAAAIbmlzdHAyNTYAAABBBEmKSENjQEezOmxkZMy7opKgwFB9nkt5YRrYMjNuG5N87uRgg6CLrbo5wAdT/y6v0mKV0U2w0WZ2YB/++Tpockg=',
+    'gitlab.com ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIAfuCHKVTjquxvt6CM6tdG4SLp1Btn/nOeHHE5UOzRdf',
+    'gitlab.com ecdsa-sha2-nistp256 AAAAE2VjZHNhLXNoYTItbmlzdHAyNTYAAAAIbmlzdHAyNTYAAABBBFSMqzJeV9rUzU4kWitGjeR4PWSa29SPqJ1fVkhtj3Hw9xjLVXVYrU9QlYWrOLXBpQ6KWjbjTDTdDkoohFzgbEY=',
+    'bitbucket.org ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAAIIazEu89wgQZ4bqs3d63QSMzYVa0MuJ2e2gKTKqu+UUO',
+  ];
+
+  static isValidRef(ref: string): boolean {
+    return ref.length <= 255 && this.REF_PATTERN.test(ref);
+  }
+
+  /**
+   * Reject repository URLs git shouldn't be pointed at: only https:// and ssh (ssh:// or
+   * git@host:path) URLs on an allowed host (GIT_ALLOWED_HOSTS) are accepted, which rules out
+   * local paths, file:// and git's ext:: transport
+   */
+  static assertAllowedUrl(repositoryUrl: string): void {
+    if (
+      !repositoryUrl ||
+      repositoryUrl.startsWith('-') ||
+      /\s/.test(repositoryUrl) ||
+      hasControlChars(repositoryUrl)
+    ) {
+      throw new Error('Repository URL is not a valid URL');
+    }
+
+    let host: string;
+    const scpLike = repositoryUrl.match(/^[A-Za-z0-9._-]+@([A-Za-z0-9.-]+):(?!\/\/)./);
+    if (scpLike) {
+      host = scpLike[1];
+    } else {
+      let url: URL;
+      try {
+        url = new URL(repositoryUrl);
+      } catch {
+        throw new Error('Repository URL is not a valid URL');
+      }
+      if (url.protocol !== 'https:' && url.protocol !== 'ssh:') {
+        throw new Error(`Repository URL must use https or ssh, not ${url.protocol.slice(0, -1)}`);
+      }
+      host = url.hostname;
+    }
+
+    const allowedHosts = config.builds.allowedGitHosts;
+    if (!allowedHosts.includes('*') && !allowedHosts.includes(host.toLowerCase())) {
+      throw new Error(
+        `Repositories on ${host} are not allowed (allowed hosts: ${allowedHosts.join(', ')})`
+      );
+    }
+  }
+
+  /**
+   * Fetch a ref of a repository (the default branch if no ref is given) into the bare
+   * repository at repoDir, creating it on first use, and return the commit it points at
+   * Objects the repository already has are not downloaded again
+   * Throws a "not found" error when the ref doesn't exist in the repository
+   */
+  static async fetch(
+    repositoryUrl: string,
+    repoDir: string,
+    ref?: string,
+    credentials?: GitCredentials
+  ): Promise<CommitInfo> {
+    if (ref && !this.isValidRef(ref)) {
+      throw new Error(`Invalid git ref "${ref}"`);
+    }
+    this.assertAllowedUrl(repositoryUrl);
+
+    const session = this.createSession(repositoryUrl, credentials);
+    const git = (args: string[]): Promise<string> => this.run(args, repoDir, session);
+
+    try {
+      if (!fs.existsSync(path.join(repoDir, 'HEAD'))) {
+        fs.mkdirSync(repoDir, { recursive: true });
+        await git(['init', '--quiet', '--bare']);
+      }
+
+      // The URL is passed on every fetch rather than stored as a remote, so a project whose
+      // repository URL changes never fetches from the old one
+      let revision = 'FETCH_HEAD';
+      try {
+        // Branches, tags and full SHAs can be fetched directly at depth 1
+        await git(['fetch', '--quiet', '--depth', '1', session.url, ref || 'HEAD']);
+      } catch (error) {
+        if (!ref || !this.SHORT_SHA_PATTERN.test(ref) || !this.isMissingRef(error)) {
+          throw this.describeFetchError(error, ref);
+        }
+
+        // Abbreviated SHAs can't be fetched by name; fetch branch history and resolve locally
+        await git(['fetch', '--quiet', session.url, '+refs/heads/*:refs/remotes/origin/*']).catch(
+          (fetchError) => {
+            throw this.describeFetchError(fetchError, ref);
+          }
+        );
+        revision = ref;
+      }
+
+      const sha = (
+        await git(['rev-parse', '--verify', '--quiet', `${revision}^{commit}`]).catch(() => {
+          throw new Error(`Git ref "${ref}" was not found in the repository`);
+        })
+      ).trim();
+
+      // Keep a ref per requested ref so its objects survive gc and the next fetch of it
+      // can tell the server what is already here
+      const refName = createHash('sha1')
+        .update(ref || 'HEAD')
+        .digest('hex')
+        .substring(0, 16);
+      await git(['update-ref', `refs/gilgal/${refName}`, sha]);
+
+      const [fullSha, author, ...message] = (
+        await git(['log', '-1', '--format=%H%n%an <%ae>%n%B', sha])
+      ).split('\n');
+
+      return { sha: fullSha, author, message: message.join('\n').trim() };
+    } finally {
+      session.cleanup();
+    }
+  }
+
+  /**
+   * Check out a commit of the bare repository at repoDir as a detached worktree in targetDir
+   */
+  static async addWorktree(repoDir: string, targetDir: string, sha: string): Promise<void> {
+    await this.run(
+      ['worktree', 'add', '--quiet', '--detach', '--force', targetDir, sha],
+      repoDir,
+      this.createSession(repoDir)
+    );
+  }
+
+  /**
+   * Remove a worktree added with addWorktree(), including files the build generated in it
+   */
+  static async removeWorktree(repoDir: string, targetDir: string): Promise<void> {
+    const session = this.createSession(repoDir);
+    try {
+      await this.run(['worktree', 'remove', '--force', '--force', targetDir], repoDir, session);
+    } catch {
+      // Already gone or not a registered worktree; remove it by hand and forget it
+      fs.rmSync(targetDir, { recursive: true, force: true });
+      await this.run(['worktree', 'prune'], repoDir, session).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Hide the user:password part of a repository URL for logs
+   */
+  static redactUrl(url: string): string {
+    return url.replace(/(\w+:\/\/)[^/@\s]+@/g, '$1***@');
+  }
+
+  /**
+   * Set up how git authenticates for one fetch
+   * - token: sent as an HTTP Authorization header via GIT_CONFIG_* environment variables,
+   *   and only to github.com
+   * - deploy-key: written to a private temp file used by GIT_SSH_COMMAND; HTTPS URLs are
+   *   rewritten to their SSH form. The host key must match a pinned or configured one
+   */
+  private static createSession(repositoryUrl: string, credentials?: GitCredentials): GitSession {
+    const session: GitSession = {
+      url: repositoryUrl,
+      env: { GIT_TERMINAL_PROMPT: '0' },
+      secrets: [],
+      cleanup: () => undefined,
+    };
+
+    if (credentials?.type === 'token' && /^https:\/\/github\.com\//i.test(repositoryUrl)) {
+      const basic = Buffer.from(`x-access-token:${credentials.token}`).toString('base64');
+      session.env = {
+        ...session.env,
+        GIT_CONFIG_COUNT: '1',
+        GIT_CONFIG_KEY_0: 'http.https://github.com/.extraheader',
+        GIT_CONFIG_VALUE_0: `AUTHORIZATION: basic ${basic}`,
+      };
+      session.secrets = [credentials.token, basic];
+    }
+
+    if (credentials?.type === 'deploy-key') {
+      const keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gilgal-ssh-'));
+      const keyPath = path.join(keyDir, 'id');
+      fs.writeFileSync(keyPath, `${credentials.privateKey.trim()}\n`, { mode: 0o600 });
+      const knownHostsPath = path.join(keyDir, 'known_hosts');
+      fs.writeFileSync(knownHostsPath, this.knownHosts());
+
+      session.url = this.toSshUrl(repositoryUrl);
+      session.env = {
+        ...session.env,
+        GIT_SSH_COMMAND: [
+          'ssh',
+          `-i '${keyPath}'`,
+          '-o IdentitiesOnly=yes',
+          '-o BatchMode=yes',
+          '-o StrictHostKeyChecking=yes',
+          `-o UserKnownHostsFile='${knownHostsPath}'`,
+        ].join(' '),
+      };
+      session.secrets = [credentials.privateKey.trim()];
+      session.cleanup = () => fs.rmSync(keyDir, { recursive: true, force: true });
+    }
+
+    return session;
+  }
+
+  /**
+   * known_hosts contents for SSH fetches: the pinned keys plus GIT_SSH_KNOWN_HOSTS_FILE
+   */
+  private static knownHosts(): string {
+    const configured = config.builds.sshKnownHostsFile
+      ? fs.readFileSync(config.builds.sshKnownHostsFile, 'utf-8').trim()
+      : '';
+    return `${[...this.KNOWN_HOSTS, configured].filter(Boolean).join('\n')}\n`;
+  }
+
+  /**
+   * https://host/owner/repo(.git) -> git@host:owner/repo.git; other URLs are kept as they are
+   */
+  private static toSshUrl(url: string): string {
+    const match = url.match(/^https?:\/\/(?:[^/@]+@)?([^/]+)\/(.+?)(?:\.git)?\/?$/i);
+    if (!match) {
+      return url;
+    }
+    // scp-style URLs can't carry a port
+    const [, host, repositoryPath] = match;
+    return host.includes(':')
+      ? `ssh://git@${host}/${repositoryPath}.git`
+      : `git@${host}:${repositoryPath}.git`;
+  }
+
+  /**
+   * Run git; resolves with stdout, rejects with stderr in the message
+   * Credentials are removed from the message before it can reach logs or the deployment
+   */
+  private static async run(args: string[], cwd: string, session: GitSession): Promise<string> {
+    try {
+      const { stdout } = await runCommand('git', args, {
+        cwd,
+        env: session.env,
+        timeoutMs: config.builds.gitTimeoutSeconds * 1000,
+        redact: session.secrets,
+      });
+      return stdout;
+    } catch (error) {
+      const detail =
+        error instanceof CommandError && !error.timedOut && error.detail
+          ? error.detail
+          : (error as Error).message;
+      throw new Error(`git ${args[0]} failed: ${this.redactUrl(detail.trim())}`);
+    }
+  }
+
+  private static isMissingRef(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return /couldn't find remote ref|not our ref|unadvertised object|no such remote ref/i.test(
+      message
+    );
+  }
+
+  private static describeFetchError(error: unknown, ref?: string): Error {
+    if (ref && this.isMissingRef(error)) {
+      return new Error(`Git ref "${ref}" was not found in the repository`);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return new Error(`Failed to fetch repository: ${message}`);
+  }
+}
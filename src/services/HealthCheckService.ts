@@ -0,0 +1,198 @@
+import * as net from 'net';
+import config from '../config';
+import { HealthCheckConfig } from '../types';
+import { HTTP_STATUS, ERROR_CODES } from '../constants';
+import { ApiError } from '../utils/error';
+import { DockerService } from './DockerService';
+
+/**
+ * Health Check Service
+ * Runs per-environment HTTP/TCP readiness probes against freshly started containers
+ * A deployment only becomes successful once its probe passes
+ */
+export class HealthCheckService {
+  /**
+   * Probe used when an environment doesn't configure one: wait for the port to open
+   */
+  static defaultHealthCheck(): HealthCheckConfig {
+    return {
+      type: 'tcp',
+      intervalSeconds: 1,
+      timeoutSeconds: 1,
+      successThreshold: 1,
+      maxWaitSeconds: config.rollout.readinessTimeoutSeconds,
+    };
+  }
+
+  /**
+   * Validate user input and fill in defaults
+   */
+  static normalize(input: Partial<HealthCheckConfig>): HealthCheckConfig {
+    const type = input.type || 'http';
+    if (type !== 'http' && type !== 'tcp') {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Health check type must be "http" or "tcp"'
+      );
+    }
+
+    const positiveInt = (value: unknown, fallback: number, field: string): number => {
+      if (value === undefined || value === null) return fallback;
+      if (!Number.isInteger(value) || (value as number) < 1) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          `Health check ${field} must be a positive integer`
+        );
+      }
+      return value as number;
+    };
+
+    const healthCheck: HealthCheckConfig = {
+      type,
+      intervalSeconds: positiveInt(input.intervalSeconds, 2, 'intervalSeconds'),
+      timeoutSeconds: positiveInt(input.timeoutSeconds, 5, 'timeoutSeconds'),
+      successThreshold: positiveInt(input.successThreshold, 1, 'successThreshold'),
+      maxWaitSeconds: positiveInt(
+        input.maxWaitSeconds,
+        config.rollout.readinessTimeoutSeconds,
+        'maxWaitSeconds'
+      ),
+    };
+
+    if (type === 'http') {
+      const path = input.path || '/';
+      if (typeof path !== 'string' || !path.startsWith('/')) {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          'Health check path must start with "/"'
+        );
+      }
+      healthCheck.path = path;
+
+      if (input.expectedStatus !== undefined) {
+        const status = input.expectedStatus;
+        if (!Number.isInteger(status) || status < 100 || status > 599) {
+          throw new ApiError(
+            HTTP_STATUS.BAD_REQUEST,
+            ERROR_CODES.VALIDATION_ERROR,
+            'Health check expectedStatus must be a valid HTTP status code'
+          );
+        }
+        healthCheck.expectedStatus = status;
+      }
+    }
+
+    return healthCheck;
+  }
+
+  /**
+   * Wait until the container passes its readiness probe
+   * HTTP probes go through the published host port; TCP probes connect to the container's
+   * own address and port, since docker-proxy accepts connections on the host port before
+   * the app is listening
+   * Throws if the container exits or the probe doesn't pass before maxWaitSeconds
+   */
+  static async waitUntilHealthy(
+    containerId: string,
+    port: number,
+    healthCheck: HealthCheckConfig = this.defaultHealthCheck(),
+    containerPort: number = 3000
+  ): Promise<void> {
+    const deadline = Date.now() + healthCheck.maxWaitSeconds * 1000;
+    let consecutivePasses = 0;
+    let lastFailure = 'no probe attempted';
+
+    while (Date.now() < deadline) {
+      const state = await DockerService.getContainerState(containerId);
+      if (!state.running) {
+        throw new Error(`Container exited with code ${state.exitCode} before becoming healthy`);
+      }
+
+      const result =
+        healthCheck.type === 'tcp'
+          ? await this.probeTcp(healthCheck, state.ipAddress, containerPort)
+          : await this.probe(healthCheck, port);
+      if (result.healthy) {
+        consecutivePasses++;
+        if (consecutivePasses >= healthCheck.successThreshold) {
+          console.log(`[HealthCheck] Container ${containerId} passed ${healthCheck.type} probe`);
+          return;
+        }
+      } else {
+        consecutivePasses = 0;
+        lastFailure = result.reason;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, healthCheck.intervalSeconds * 1000));
+    }
+
+    throw new Error(
+      `Health check did not pass within ${healthCheck.maxWaitSeconds}s (last failure: ${lastFailure})`
+    );
+  }
+
+  /**
+   * Run a single TCP probe against the container's address
+   */
+  private static async probeTcp(
+    healthCheck: HealthCheckConfig,
+    host: string | undefined,
+    port: number
+  ): Promise<{ healthy: boolean; reason: string }> {
+    if (!host) {
+      return { healthy: false, reason: 'container has no network address' };
+    }
+    const open = await this.isPortOpen(host, port, healthCheck.timeoutSeconds * 1000);
+    return { healthy: open, reason: open ? '' : `port ${port} not accepting connections` };
+  }
+
+  /**
+   * Run a single HTTP probe against the container's host port
+   */
+  private static async probe(
+    healthCheck: HealthCheckConfig,
+    port: number
+  ): Promise<{ healthy: boolean; reason: string }> {
+    const timeoutMs = healthCheck.timeoutSeconds * 1000;
+
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}${healthCheck.path || '/'}`, {
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      const healthy = healthCheck.expectedStatus
+        ? response.status === healthCheck.expectedStatus
+        : response.status >= 200 && response.status < 400;
+
+      return { healthy, reason: `GET ${healthCheck.path} returned ${response.status}` };
+    } catch (error) {
+      return {
+        healthy: false,
+        reason: `GET ${healthCheck.path} failed: ${error instanceof Error ? error.message : error}`,
+      };
+    }
+  }
+
+  /**
+   * Check whether something is listening on a host and port
+   */
+  private static isPortOpen(host: string, port: number, timeoutMs: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const socket = net.connect({ host, port });
+      socket.setTimeout(timeoutMs);
+      socket.once('connect', () => {
+        socket.destroy();
+        resolve(true);
+      });
+      socket.once('timeout', () => {
+        socket.destroy();
+        resolve(false);
+      });
+      socket.once('error', () => resolve(false));
+    });
+  }
+}
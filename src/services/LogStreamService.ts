@@ -0,0 +1,65 @@
+import { EventEmitter } from 'events';
+import { PoolClient } from 'pg';
+import { pool } from '../database';
+
+/**
+ * Log Stream Service
+ * Fans out deployment log notifications to live subscribers (SSE clients)
+ * Workers run in a separate process, so new log rows are announced with
+ * Postgres NOTIFY and picked up here with a single shared LISTEN connection
+ */
+export class LogStreamService {
+  static readonly CHANNEL = 'deployment_logs';
+
+  private static emitter = new EventEmitter().setMaxListeners(0);
+  private static client: PoolClient | null = null;
+  private static connecting: Promise<void> | null = null;
+
+  /**
+   * Subscribe to new-log notifications for a deployment
+   * Returns an unsubscribe function
+   */
+  static async subscribe(deploymentId: string, listener: () => void): Promise<() => void> {
+    await this.ensureListening();
+    this.emitter.on(deploymentId, listener);
+
+    return () => {
+      this.emitter.off(deploymentId, listener);
+    };
+  }
+
+  /**
+   * Open the shared LISTEN connection if it isn't already open
+   */
+  private static async ensureListening(): Promise<void> {
+    if (this.client) {
+      return;
+    }
+
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        const client = await pool.connect();
+
+        client.on('notification', (msg) => {
+          if (msg.channel === this.CHANNEL && msg.payload) {
+            this.emitter.emit(msg.payload);
+          }
+        });
+
+        client.on('error', (error) => {
+          console.error('[LogStream] LISTEN connection error:', error);
+          this.client = null;
+          client.release(error);
+        });
+
+        await client.query(`LISTEN ${this.CHANNEL}`);
+        this.client = client;
+        console.log('[LogStream] Listening for deployment log notifications');
+      })().finally(() => {
+        this.connecting = null;
+      });
+    }
+
+    await this.connecting;
+  }
+}
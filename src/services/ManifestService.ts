@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { AppManifest, HealthCheckConfig } from '../types';
+import { hasControlChars } from '../utils/text';
+import { BuildSettings } from './BuildStrategyService';
+import { HealthCheckService } from './HealthCheckService';
+
+const MANIFEST_FILES = ['gilgal.json', 'gilgal.yaml', 'gilgal.yml'];
+
+/**
+ * Manifest Service
+ * Reads the optional gilgal.json / gilgal.yaml at the root of a repository, which overrides
+ * what the build strategy infers (install, build and start commands, output dir, port) and
+ * declares the health check and extra process types
+ * The schema is strict so a typo fails the build instead of being silently ignored
+ */
+export class ManifestService {
+  private static readonly PROCESS_NAME_PATTERN = /^[a-z][a-z0-9-]{0,29}$/;
+  private static readonly OUTPUT_DIR_PATTERN = /^(?!\/)(?!.*(^|\/)\.\.(\/|$))[A-Za-z0-9._/-]+$/;
+
+  /**
+   * Load and validate the manifest in a source tree; null if the repository has none
+   * Throws with every schema problem listed when the manifest is invalid
+   */
+  static load(sourceDir: string): { file: string; manifest: AppManifest } | null {
+    const found = MANIFEST_FILES.filter((name) => fs.existsSync(path.join(sourceDir, name)));
+    if (found.length === 0) {
+      return null;
+    }
+    if (found.length > 1) {
+      throw new Error(`Found ${found.join(' and ')}; keep only one manifest file`);
+    }
+
+    const file = found[0];
+    const text = fs.readFileSync(path.join(sourceDir, file), 'utf-8');
+
+    let input: unknown;
+    try {
+      input = file.endsWith('.json') ? JSON.parse(text) : YAML.parse(text);
+    } catch (error) {
+      throw new Error(
+        `${file} could not be parsed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const { manifest, errors } = this.validate(input);
+    if (errors.length > 0) {
+      throw new Error(`${file} is invalid:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+    }
+
+    return { file, manifest };
+  }
+
+  /**
+   * Check a parsed manifest against the schema, collecting every problem
+   */
+  static validate(input: unknown): { manifest: AppManifest; errors: string[] } {
+    const errors: string[] = [];
+    const manifest: AppManifest = {};
+
+    if (!this.isObject(input)) {
+      return { manifest, errors: ['the manifest must be an object'] };
+    }
+
+    this.checkKeys(input, ['build', 'start', 'port', 'healthCheck', 'processes'], '', errors);
+
+    if (input.build !== undefined) {
+      if (!this.isObject(input.build)) {
+        errors.push('build must be an object');
+      } else {
+        this.checkKeys(input.build, ['install', 'command', 'outputDir'], 'build.', errors);
+        const install = this.command(input.build.install, 'build.install', errors);
+        const command = this.command(input.build.command, 'build.command', errors);
+        let outputDir: string | undefined;
+        if (input.build.outputDir !== undefined) {
+          if (
+            typeof input.build.outputDir !== 'string' ||
+            !this.OUTPUT_DIR_PATTERN.test(input.build.outputDir)
+          ) {
+            errors.push('build.outputDir must be a relative path inside the repository');
+          } else {
+            outputDir = input.build.outputDir.replace(/\/+$/, '');
+          }
+        }
+        manifest.build = { install, command, outputDir };
+      }
+    }
+
+    manifest.start = this.command(input.start, 'start', errors);
+
+    if (input.port !== undefined) {
+      const port = input.port;
+      if (typeof port !== 'number' || !Number.isInteger(port) || port < 1 || port > 65535) {
+        errors.push('port must be an integer between 1 and 65535');
+      } else {
+        manifest.port = port;
+      }
+    }
+
+    if (input.healthCheck !== undefined) {
+      if (!this.isObject(input.healthCheck)) {
+        errors.push('healthCheck must be an object');
+      } else {
+        this.checkKeys(
+          input.healthCheck,
+          [
+            'type',
+            'path',
+            'expectedStatus',
+            'intervalSeconds',
+            'timeoutSeconds',
+            'successThreshold',
+            'maxWaitSeconds',
+          ],
+          'healthCheck.',
+          errors
+        );
+        try {
+          manifest.healthCheck = HealthCheckService.normalize(
+            input.healthCheck as Partial<HealthCheckConfig>
+          );
+        } catch (error) {
+          errors.push(`healthCheck: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+
+    if (input.processes !== undefined) {
+      if (!this.isObject(input.processes)) {
+        errors.push('processes must be an object of process names to commands');
+      } else {
+        manifest.processes = {};
+        for (const [name, command] of Object.entries(input.processes)) {
+          if (!this.PROCESS_NAME_PATTERN.test(name)) {
+            errors.push(
+              `processes.${name}: process names must be lowercase letters, digits and dashes`
+            );
+            continue;
+          }
+          const value = this.command(command, `processes.${name}`, errors);
+          if (value) {
+            manifest.processes[name] = value;
+          }
+        }
+        if (manifest.processes.web && manifest.start) {
+          errors.push('start and processes.web both set the start command; use one of them');
+        }
+      }
+    }
+
+    return { manifest, errors };
+  }
+
+  /**
+   * The parts of a manifest the build strategy uses
+   */
+  static toBuildSettings(manifest?: AppManifest): BuildSettings {
+    return {
+      install: manifest?.build?.install,
+      build: manifest?.build?.command,
+      outputDir: manifest?.build?.outputDir,
+      start: manifest?.start || manifest?.processes?.web,
+      port: manifest?.port,
+    };
+  }
+
+  /**
+   * Process types other than web, which run in their own containers
+   */
+  static workerProcesses(manifest?: AppManifest): [string, string][] {
+    return Object.entries(manifest?.processes || {}).filter(([name]) => name !== 'web');
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static checkKeys(
+    value: Record<string, unknown>,
+    allowed: string[],
+    prefix: string,
+    errors: string[]
+  ): void {
+    Object.keys(value)
+      .filter((key) => !allowed.includes(key))
+      .forEach((key) => errors.push(`${prefix}${key} is not a recognised setting`));
+  }
+
+  /**
+   * A single-line shell command; newlines would break out of the generated Dockerfile line
+   */
+  private static command(value: unknown, field: string, errors: string[]): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== 'string' || !value.trim() || hasControlChars(value)) {
+      errors.push(`${field} must be a non-empty, single-line command`);
+      return undefined;
+    }
+    return value.trim();
+  }
+}
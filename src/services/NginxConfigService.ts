@@ -1,68 +1,34 @@
-import { query } from '../database';
 import { execSync } from 'child_process';
+import crypto from 'crypto';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-
-interface ActiveDeployment {
-  slug: string;
-  port: number;
-  project_id: string;
-}
+import { query } from '../database';
+import { ProxyRoute, NginxConfigVersion } from '../types';
+import { HTTP_STATUS, ERROR_CODES } from '../constants';
+import { ApiError } from '../utils/error';
+import { createUnifiedDiff } from '../utils/diff';
+import { replaceControlChars } from '../utils/text';
 
 /**
  * Nginx Config Service
- * Manages dynamic nginx configuration based on active deployments
- * Allows routing subdomain.gilgal.tech to correct container ports
+ * Nginx proxy provider: renders routes into a sites-available file and reloads nginx
+ * Configs are validated before they go live and every applied version is kept for diffing
+ * Routes each environment's hostname (and custom domain) to its container port
+ * Custom domains use their own ACME certificate once CertificateService has issued one
  */
 export class NginxConfigService {
   private static readonly CONFIG_PATH = '/etc/nginx/sites-available/gilgal.tech';
+  private static readonly VERSION_COLUMNS =
+    'id, checksum, content, status, error, created_at as "createdAt"';
   private static readonly DOMAIN = 'gilgal.tech';
 
-  /**
-   * Get all active deployments with their container ports
-   * Only returns deployments with status=success and not deleted
-   */
-  static async getActiveDeployments(): Promise<ActiveDeployment[]> {
-    try {
-      const result = await query(
-        `
-        SELECT 
-          p.slug,
-          d.container_port as port,
-          p.id as project_id
-        FROM deployments d
-        JOIN projects p ON d.project_id = p.id
-        WHERE d.status = 'success' 
-          AND d.container_port IS NOT NULL
-          AND p.deleted_at IS NULL
-          AND d.id = (
-            -- Get latest successful deployment for each project
-            SELECT id FROM deployments d2 
-            WHERE d2.project_id = p.id 
-              AND d2.status = 'success'
-            ORDER BY d2.deployed_at DESC 
-            LIMIT 1
-          )
-        ORDER BY p.slug ASC
-        `,
-        []
-      );
-
-      return result.rows;
-    } catch (error) {
-      console.error('[NginxConfig] Error fetching active deployments:', error);
-      throw error;
-    }
-  }
-
   /**
    * Generate nginx configuration from active deployments
    * Creates dynamic routing for subdomains with HTTPS/SSL
    * Always includes main routes: landing, docs, api
    */
-  static async generateNginxConfig(): Promise<string> {
-    const deployments = await this.getActiveDeployments();
-
+  static generateNginxConfig(deployments: ProxyRoute[]): string {
     // Main upstreams (always present)
     const mainUpstreams = `
   upstream landing {
@@ -78,11 +44,11 @@ export class NginxConfigService {
   }
 `;
 
-    // Build upstream definitions for user deployments
+    // Build upstream definitions for user deployments (one per environment)
     const userUpstreams = deployments
       .map(
         (dep) => `
-  upstream ${dep.project_id} {
+  upstream ${dep.environment_id} {
     server localhost:${dep.port};
   }
 `
@@ -95,7 +61,7 @@ export class NginxConfigService {
 server {
     listen 80;
     server_name ${this.DOMAIN} www.${this.DOMAIN} *.${this.DOMAIN};
-    return 301 https://$server_name$request_uri;
+    return 301 https://$host$request_uri;
 }
 `;
 
@@ -160,9 +126,10 @@ server {
     const userServerBlocks = deployments
       .map(
         (dep) => `
+# ${this.comment(`${dep.slug} (${dep.environment_name})`)}
 server {
     listen 443 ssl http2;
-    server_name ${dep.slug}.${this.DOMAIN};
+    server_name ${dep.hostname};
     ssl_certificate /etc/letsencrypt/live/${this.DOMAIN}/fullchain.pem;
     ssl_certificate_key /etc/letsencrypt/live/${this.DOMAIN}/privkey.pem;
     ssl_protocols TLSv1.2 TLSv1.3;
@@ -170,7 +137,7 @@ server {
     ssl_prefer_server_ciphers on;
 
     location / {
-        proxy_pass http://${dep.project_id};
+        proxy_pass http://${dep.environment_id};
         proxy_set_header Host $host;
         proxy_set_header X-Real-IP $remote_addr;
         proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
@@ -183,9 +150,57 @@ server {
       )
       .join('\n');
 
+    // Verified custom domains: ACME HTTP-01 challenges go to the API; everything else is
+    // redirected to HTTPS once the domain has its own certificate (served over HTTP until then)
+    const customDomainBlocks = deployments
+      .filter((dep) => dep.domain)
+      .map((dep) => {
+        const httpBlock = `
+# ${this.comment(`${dep.domain} (${dep.slug} ${dep.environment_name})`)}
+server {
+    listen 80;
+    server_name ${dep.domain};
+
+    location /.well-known/acme-challenge/ {
+        proxy_pass http://api;
+        proxy_set_header Host $host;
+    }
+
+    location / {${
+      dep.certificate_path
+        ? `
+        return 301 https://$host$request_uri;`
+        : this.proxyDirectives(dep.environment_id)
+    }
+    }
+}
+`;
+
+        if (!dep.certificate_path) {
+          return httpBlock;
+        }
+
+        return `${httpBlock}
+server {
+    listen 443 ssl http2;
+    server_name ${dep.domain};
+    ssl_certificate ${dep.certificate_path};
+    ssl_certificate_key ${dep.certificate_key_path};
+    ssl_protocols TLSv1.2 TLSv1.3;
+    ssl_ciphers HIGH:!aNULL:!MD5;
+    ssl_prefer_server_ciphers on;
+
+    location / {${this.proxyDirectives(dep.environment_id)}
+    }
+}
+`;
+      })
+      .join('\n');
+
+    // No timestamp in the output so identical routing produces identical configs
+    // (apply times are recorded in nginx_config_versions)
     const config = `# Auto-generated by Gilgal PaaS with HTTPS/SSL
 # DO NOT EDIT MANUALLY - changes will be overwritten on deployment
-# Generated: ${new Date().toISOString()}
 
 ${mainUpstreams}
 ${userUpstreams}
@@ -194,55 +209,262 @@ ${httpRedirect}
 
 ${mainRoutes}
 ${userServerBlocks}
+${customDomainBlocks}
 `;
 
     return config;
   }
 
   /**
-   * Write nginx config to file and reload nginx
+   * Text for a `#` comment line; a line break would end the comment and start a directive
+   */
+  private static comment(text: string): string {
+    return replaceControlChars(text);
+  }
+
+  /**
+   * Proxy directives for a user deployment location block
    */
-  static async applyNginxConfig(): Promise<void> {
+  private static proxyDirectives(upstream: string): string {
+    return `
+        proxy_pass http://${upstream};
+        proxy_set_header Host $host;
+        proxy_set_header X-Real-IP $remote_addr;
+        proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+        proxy_set_header X-Forwarded-Proto $scheme;
+        proxy_http_version 1.1;
+        proxy_set_header Connection "";`;
+  }
+
+  /**
+   * Validate, install and reload a new nginx config
+   * 1. Write the config to a staging file next to the live one
+   * 2. Validate the staged file on its own with nginx -t
+   * 3. Keep the live file as last known good and swap the staged file in with a rename
+   * 4. Validate the full nginx setup and reload; on failure restore the last known good
+   * Every attempt is stored in nginx_config_versions; unchanged configs are skipped
+   * The staging and last known good files are unique to the call, so workers applying at
+   * the same time never validate or restore each other's files
+   */
+  static async applyNginxConfig(routes: ProxyRoute[]): Promise<void> {
+    console.log('[NginxConfig] Generating nginx configuration...');
+    const content = this.generateNginxConfig(routes);
+
+    const current = await this.getCurrentVersion();
+    if (current?.content === content) {
+      console.log('[NginxConfig] Config unchanged, skipping reload');
+      return;
+    }
+
+    const suffix = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+    const stagingPath = `${this.CONFIG_PATH}.staging-${suffix}`;
+    const lastGoodPath = `${this.CONFIG_PATH}.last-good-${suffix}`;
+    const tempPath = path.join(os.tmpdir(), `gilgal-${suffix}.nginx.conf`);
+    const testPath = path.join(os.tmpdir(), `gilgal-${suffix}.nginx-test.conf`);
+
     try {
-      console.log('[NginxConfig] Generating nginx configuration...');
-
-      const config = await this.generateNginxConfig();
-
-      // For development/non-root, just log the config
-      // In production on VM, this would write to /etc/nginx/sites-available/gilgal.tech
-      console.log('[NginxConfig] Generated config:');
-      console.log(config);
-
-      // Try to write config using temp file (avoids shell escaping issues)
-      try {
-        const tempPath = `/tmp/gilgal-${Date.now()}.nginx.conf`;
-        fs.writeFileSync(tempPath, config, 'utf-8');
-
-        // Move temp file to nginx directory with sudo
-        execSync(`sudo mv ${tempPath} ${this.CONFIG_PATH}`, { stdio: 'pipe' });
-        console.log(`[NginxConfig] Config written to ${this.CONFIG_PATH}`);
-
-        // Test nginx configuration
-        try {
-          execSync('sudo nginx -t', { stdio: 'pipe' });
-          console.log('[NginxConfig] Nginx config validated');
-
-          // Reload nginx
-          execSync('sudo systemctl reload nginx', { stdio: 'pipe' });
-          console.log('[NginxConfig] Nginx reloaded successfully');
-        } catch (error) {
-          console.warn('[NginxConfig] Could not reload nginx:', error);
-          // Continue anyway - config is written even if reload fails
-        }
-      } catch (error) {
-        console.warn('[NginxConfig] Could not write config file:', error);
-        // Log the config that would have been written for manual setup
-        console.log('[NginxConfig] Manually copy this to /etc/nginx/sites-available/gilgal.tech:');
-        console.log(config);
+      fs.writeFileSync(tempPath, content, 'utf-8');
+      fs.writeFileSync(
+        testPath,
+        `events {}\nhttp {\n    include /etc/nginx/mime.types;\n    include ${stagingPath};\n}\n`,
+        'utf-8'
+      );
+
+      this.run(`sudo cp ${tempPath} ${stagingPath}`);
+      this.run(`sudo nginx -t -c ${testPath}`);
+    } catch (error) {
+      const message = this.errorMessage(error);
+      const versionId = await this.recordVersion(content, 'failed', message);
+      this.runQuietly(`sudo rm -f ${stagingPath}`);
+      console.error(`[NginxConfig] Generated config failed validation (version ${versionId})`);
+      throw new Error(`Generated nginx config failed validation: ${message}`);
+    } finally {
+      fs.rmSync(tempPath, { force: true });
+      fs.rmSync(testPath, { force: true });
+    }
+
+    const hadLiveConfig = fs.existsSync(this.CONFIG_PATH);
+
+    try {
+      if (hadLiveConfig) {
+        this.run(`sudo cp -p ${this.CONFIG_PATH} ${lastGoodPath}`);
       }
+      this.run(`sudo mv -f ${stagingPath} ${this.CONFIG_PATH}`);
+      this.run('sudo nginx -t');
+      this.run('sudo systemctl reload nginx');
     } catch (error) {
-      console.error('[NginxConfig] Failed to apply nginx config:', error);
-      throw error;
+      const message = this.errorMessage(error);
+      this.restoreLastGood(hadLiveConfig ? lastGoodPath : null);
+      const versionId = await this.recordVersion(content, 'failed', message);
+      console.error(`[NginxConfig] Reload failed, restored last known good (version ${versionId})`);
+      throw new Error(`Nginx reload failed, previous config restored: ${message}`);
+    }
+
+    this.runQuietly(`sudo rm -f ${lastGoodPath}`);
+    const versionId = await this.recordVersion(content, 'applied');
+    console.log(`[NginxConfig] Applied config version ${versionId} and reloaded nginx`);
+  }
+
+  /**
+   * List stored config versions, newest first (without content)
+   */
+  static async listVersions(
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ versions: NginxConfigVersion[]; total: number }> {
+    const versionsResult = await query<NginxConfigVersion>(
+      `
+      SELECT id, checksum, status, error, created_at as "createdAt"
+      FROM nginx_config_versions
+      ORDER BY created_at DESC
+      LIMIT $1 OFFSET $2
+      `,
+      [limit, offset]
+    );
+
+    const countResult = await query<{ count: number }>(
+      'SELECT COUNT(*) as count FROM nginx_config_versions'
+    );
+
+    return {
+      versions: versionsResult.rows,
+      total: parseInt(String(countResult.rows[0]?.count || '0'), 10),
+    };
+  }
+
+  /**
+   * Get a stored config version including its content
+   */
+  static async getVersion(versionId: string): Promise<NginxConfigVersion> {
+    const result = await query<NginxConfigVersion>(
+      `
+      SELECT ${this.VERSION_COLUMNS}
+      FROM nginx_config_versions
+      WHERE id = $1
+      `,
+      [versionId]
+    );
+
+    if (result.rowCount === 0) {
+      throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.NOT_FOUND, 'Config version not found');
     }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Unified diff between a version and another one
+   * Defaults to the applied version that preceded it
+   */
+  static async diffVersions(
+    versionId: string,
+    againstId?: string
+  ): Promise<{ from: string | null; to: string; diff: string }> {
+    const version = await this.getVersion(versionId);
+
+    let base: NginxConfigVersion | null = null;
+    if (againstId) {
+      base = await this.getVersion(againstId);
+    } else {
+      const previous = await query<NginxConfigVersion>(
+        `
+        SELECT ${this.VERSION_COLUMNS}
+        FROM nginx_config_versions
+        WHERE status = 'applied' AND created_at < $1
+        ORDER BY created_at DESC
+        LIMIT 1
+        `,
+        [version.createdAt]
+      );
+      base = previous.rows[0] || null;
+    }
+
+    return {
+      from: base?.id || null,
+      to: version.id,
+      diff: createUnifiedDiff(
+        base?.content || '',
+        version.content || '',
+        base ? `version ${base.id}` : '/dev/null',
+        `version ${version.id}`
+      ),
+    };
+  }
+
+  /**
+   * The most recently applied version, i.e. what nginx is serving
+   */
+  private static async getCurrentVersion(): Promise<NginxConfigVersion | null> {
+    const result = await query<NginxConfigVersion>(
+      `
+      SELECT ${this.VERSION_COLUMNS}
+      FROM nginx_config_versions
+      WHERE status = 'applied'
+      ORDER BY created_at DESC
+      LIMIT 1
+      `
+    );
+
+    return result.rows[0] || null;
+  }
+
+  private static async recordVersion(
+    content: string,
+    status: NginxConfigVersion['status'],
+    error?: string
+  ): Promise<string> {
+    const checksum = crypto.createHash('sha256').update(content).digest('hex');
+    const result = await query<{ id: string }>(
+      `
+      INSERT INTO nginx_config_versions (checksum, content, status, error)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id
+      `,
+      [checksum, content, status, error || null]
+    );
+
+    return result.rows[0].id;
+  }
+
+  /**
+   * Put the last known good config back (or remove ours if there was none) and reload
+   */
+  private static restoreLastGood(lastGoodPath: string | null): void {
+    try {
+      if (lastGoodPath) {
+        this.run(`sudo mv -f ${lastGoodPath} ${this.CONFIG_PATH}`);
+      } else {
+        this.run(`sudo rm -f ${this.CONFIG_PATH}`);
+      }
+      this.run('sudo nginx -t');
+      this.run('sudo systemctl reload nginx');
+      console.log('[NginxConfig] Restored last known good config');
+    } catch (error) {
+      console.error('[NginxConfig] Failed to restore last known good config:', error);
+    }
+  }
+
+  /**
+   * Run a command, surfacing its stderr (e.g. nginx -t output) in the thrown error
+   */
+  private static run(command: string): void {
+    try {
+      execSync(command, { stdio: 'pipe' });
+    } catch (error) {
+      const stderr = (error as { stderr?: Buffer }).stderr?.toString().trim();
+      throw new Error(stderr ? `${command}: ${stderr}` : `${command} failed`);
+    }
+  }
+
+  private static runQuietly(command: string): void {
+    try {
+      this.run(command);
+    } catch {
+      // best effort cleanup
+    }
+  }
+
+  private static errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
   }
 }
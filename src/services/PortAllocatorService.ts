@@ -0,0 +1,123 @@
+import * as net from 'net';
+import config from '../config';
+import { query } from '../database';
+import { HTTP_STATUS, ERROR_CODES } from '../constants';
+import { ApiError } from '../utils/error';
+
+/**
+ * Port Allocator Service
+ * Hands out host ports for user containers from the configured range
+ * Reservations live in port_reservations (port is the primary key), so two
+ * workers can never be given the same port; ports are released when containers stop
+ */
+export class PortAllocatorService {
+  // Reservations that never got a container (e.g. worker crashed) are reclaimed after this
+  private static readonly STALE_RESERVATION_MINUTES = 15;
+
+  /**
+   * Reserve a free host port for a deployment
+   * Skips ports already reserved in the database or in use on the host
+   */
+  static async reserve(deploymentId: string): Promise<number> {
+    const { rangeStart, rangeEnd } = config.ports;
+
+    await query(
+      `
+      DELETE FROM port_reservations
+      WHERE container_id IS NULL
+        AND reserved_at < CURRENT_TIMESTAMP - make_interval(mins => $1)
+      `,
+      [this.STALE_RESERVATION_MINUTES]
+    );
+
+    const candidates = await query<{ port: number }>(
+      `
+      SELECT candidate AS port
+      FROM generate_series($1::int, $2::int) AS candidate
+      WHERE NOT EXISTS (SELECT 1 FROM port_reservations r WHERE r.port = candidate)
+      ORDER BY candidate ASC
+      `,
+      [rangeStart, rangeEnd]
+    );
+
+    for (const { port } of candidates.rows) {
+      if (!(await this.isHostPortFree(port))) {
+        continue;
+      }
+
+      // Primary key on port makes this the atomic claim; losing a race just moves on
+      const result = await query(
+        `
+        INSERT INTO port_reservations (port, deployment_id)
+        VALUES ($1, $2)
+        ON CONFLICT (port) DO NOTHING
+        RETURNING port
+        `,
+        [port, deploymentId]
+      );
+
+      if (result.rowCount > 0) {
+        console.log(`[Ports] Reserved port ${port} for deployment ${deploymentId}`);
+        return port;
+      }
+    }
+
+    throw new ApiError(
+      HTTP_STATUS.SERVICE_UNAVAILABLE,
+      ERROR_CODES.PORT_POOL_EXHAUSTED,
+      `No free host ports left in range ${rangeStart}-${rangeEnd}`
+    );
+  }
+
+  /**
+   * Record which container is using a reserved port
+   */
+  static async attachContainer(port: number, containerId: string): Promise<void> {
+    await query('UPDATE port_reservations SET container_id = $1 WHERE port = $2', [
+      containerId,
+      port,
+    ]);
+  }
+
+  /**
+   * Release a single port
+   */
+  static async release(port: number): Promise<void> {
+    await query('DELETE FROM port_reservations WHERE port = $1', [port]);
+  }
+
+  /**
+   * Release the port held by a container
+   */
+  static async releaseByContainer(containerId: string): Promise<void> {
+    const result = await query(
+      'DELETE FROM port_reservations WHERE container_id = $1 RETURNING port',
+      [containerId]
+    );
+
+    if (result.rowCount > 0) {
+      console.log(`[Ports] Released port ${result.rows[0].port} (container ${containerId})`);
+    }
+  }
+
+  /**
+   * Release any ports reserved by a deployment that never got a container
+   */
+  static async releaseUnattached(deploymentId: string): Promise<void> {
+    await query('DELETE FROM port_reservations WHERE deployment_id = $1 AND container_id IS NULL', [
+      deploymentId,
+    ]);
+  }
+
+  /**
+   * Check that nothing on the host is already bound to the port
+   */
+  private static isHostPortFree(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const server = net.createServer();
+      server.once('error', () => resolve(false));
+      server.once('listening', () => server.close(() => resolve(true)));
+      server.listen(port, '127.0.0.1');
+    });
+  }
+}
@@ -0,0 +1,402 @@
+import { query, transaction } from '../database';
+import { PreviewEnvironment } from '../types';
+import { HTTP_STATUS, ERROR_CODES, DEPLOYMENT_STATUS, PREVIEW_STATUS } from '../constants';
+import { ApiError } from '../utils/error';
+import { matchesBranchPattern } from '../utils/branch';
+import { DeploymentQueueService } from './DeploymentQueueService';
+import { DockerService } from './DockerService';
+import { EnvironmentService } from './EnvironmentService';
+import { ProjectService } from './ProjectService';
+import { ProxyService } from './ProxyService';
+import { VariableGroupService } from './VariableGroupService';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Pull request a preview is deployed from
+ */
+export interface PullRequestInfo {
+  number: number;
+  title?: string;
+  url?: string;
+  headRef: string;
+  headSha: string;
+  baseRef: string;
+  author?: string;
+}
+
+interface PreviewRow {
+  id: string;
+  projectId: string;
+  environmentId: string;
+  pullRequestNumber: number;
+  title?: string;
+  pullRequestUrl?: string;
+  headRef: string;
+  headSha?: string;
+  author?: string;
+  status: 'open' | 'closed';
+  createdAt: Date;
+  updatedAt: Date;
+  closedAt?: Date;
+  deploymentId?: string;
+  deploymentStatus?: string;
+  deploymentCommitSha?: string;
+  deploymentError?: string;
+}
+
+const PREVIEW_COLUMNS = `
+  pv.id,
+  pv.project_id as "projectId",
+  pv.environment_id as "environmentId",
+  pv.pull_request_number as "pullRequestNumber",
+  pv.title,
+  pv.pull_request_url as "pullRequestUrl",
+  pv.head_ref as "headRef",
+  pv.head_sha as "headSha",
+  pv.author,
+  pv.status,
+  pv.created_at as "createdAt",
+  pv.updated_at as "updatedAt",
+  pv.closed_at as "closedAt",
+  d.id as "deploymentId",
+  d.status as "deploymentStatus",
+  d.commit_sha as "deploymentCommitSha",
+  d.error_message as "deploymentError"
+`;
+
+const LATEST_DEPLOYMENT_JOIN = `
+  LEFT JOIN LATERAL (
+    SELECT id, status, commit_sha, error_message
+    FROM deployments
+    WHERE environment_id = pv.environment_id
+    ORDER BY created_at DESC
+    LIMIT 1
+  ) d ON true
+`;
+
+/**
+ * Preview Service
+ * Runs a temporary environment per open pull request at pr-N-slug.gilgal.tech
+ * Previews are created on open, redeployed on every push to the pull request and torn
+ * down (route, containers and images) when it is closed or merged
+ */
+export class PreviewService {
+  /**
+   * Deploy a pull request's head commit to its preview, creating the preview environment
+   * when the pull request has none open (first deployment or reopened)
+   */
+  static async deployPreview(
+    project: { id: string; user_id: string; slug: string },
+    pullRequest: PullRequestInfo
+  ): Promise<{ environmentId: string; deploymentId: string }> {
+    // Deliveries for one pull request can arrive together (redeliveries, opened followed by
+    // synchronize); the lock lets only the first of them create the preview environment
+    const environmentId = await transaction(async (client) => {
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1), $2)', [
+        project.id,
+        pullRequest.number,
+      ]);
+
+      const existing = await client.query<{ environment_id: string }>(
+        `
+        SELECT pv.environment_id
+        FROM preview_environments pv
+        JOIN environments e ON pv.environment_id = e.id
+        WHERE pv.project_id = $1 AND pv.pull_request_number = $2 AND pv.status = $3
+          AND e.deleted_at IS NULL
+        `,
+        [project.id, pullRequest.number, PREVIEW_STATUS.OPEN]
+      );
+
+      const id =
+        existing.rows[0]?.environment_id ||
+        (await this.createPreviewEnvironment(project, pullRequest));
+
+      await client.query(
+        `
+        INSERT INTO preview_environments
+          (project_id, environment_id, pull_request_number, title, pull_request_url, head_ref,
+           head_sha, author, status)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT (project_id, pull_request_number) DO UPDATE
+        SET environment_id = EXCLUDED.environment_id, title = EXCLUDED.title,
+            pull_request_url = EXCLUDED.pull_request_url, head_ref = EXCLUDED.head_ref,
+            head_sha = EXCLUDED.head_sha, author = EXCLUDED.author, status = EXCLUDED.status,
+            closed_at = NULL, updated_at = CURRENT_TIMESTAMP
+        `,
+        [
+          project.id,
+          id,
+          pullRequest.number,
+          pullRequest.title || null,
+          pullRequest.url || null,
+          pullRequest.headRef,
+          pullRequest.headSha,
+          pullRequest.author || null,
+          PREVIEW_STATUS.OPEN,
+        ]
+      );
+
+      return id;
+    });
+
+    const deploymentId = uuidv4();
+    await query(
+      `INSERT INTO deployments
+       (id, project_id, environment_id, status, ref, commit_sha, commit_message, created_at,
+        updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+      [
+        deploymentId,
+        project.id,
+        environmentId,
+        DEPLOYMENT_STATUS.PENDING,
+        pullRequest.headRef,
+        pullRequest.headSha,
+        `Preview deployment for pull request #${pullRequest.number} (${pullRequest.headRef})`,
+      ]
+    );
+
+    console.log(
+      `[Preview] Created deployment ${deploymentId} for ${project.slug} pull request #${pullRequest.number}`
+    );
+
+    await DeploymentQueueService.enqueue(deploymentId);
+
+    return { environmentId, deploymentId };
+  }
+
+  /**
+   * Tear down the open preview of a pull request: its route, containers and images
+   * Returns false when the pull request has no open preview
+   */
+  static async teardownPreview(projectId: string, pullRequestNumber: number): Promise<boolean> {
+    const previewResult = await query<{ id: string; environment_id: string }>(
+      `
+      SELECT id, environment_id FROM preview_environments
+      WHERE project_id = $1 AND pull_request_number = $2 AND status = $3
+      `,
+      [projectId, pullRequestNumber, PREVIEW_STATUS.OPEN]
+    );
+
+    if (previewResult.rowCount === 0) {
+      return false;
+    }
+
+    const { id: previewId, environment_id: environmentId } = previewResult.rows[0];
+
+    // Stop builds first so nothing redeploys the preview while it is torn down. A build
+    // that is already running notices the cancellation at its next phase and removes what it
+    // started; it can no longer be marked successful, so the containers read below are final
+    const cancelledResult = await query<{ id: string }>(
+      `
+      UPDATE deployments SET status = $1, updated_at = CURRENT_TIMESTAMP
+      WHERE environment_id = $2 AND status IN ($3, $4)
+      RETURNING id
+      `,
+      [
+        DEPLOYMENT_STATUS.CANCELLED,
+        environmentId,
+        DEPLOYMENT_STATUS.PENDING,
+        DEPLOYMENT_STATUS.BUILDING,
+      ]
+    );
+    for (const deployment of cancelledResult.rows) {
+      await DeploymentQueueService.cancelForDeployment(deployment.id);
+    }
+
+    const deploymentsResult = await query<{
+      id: string;
+      container_id: string | null;
+      image_name: string | null;
+    }>('SELECT id, container_id, image_name FROM deployments WHERE environment_id = $1', [
+      environmentId,
+    ]);
+    const deployments = deploymentsResult.rows;
+
+    await query('UPDATE environments SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1', [
+      environmentId,
+    ]);
+    await query(
+      `
+      UPDATE preview_environments
+      SET status = $1, closed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2
+      `,
+      [PREVIEW_STATUS.CLOSED, previewId]
+    );
+
+    // Drop the route before stopping the containers behind it
+    try {
+      await ProxyService.applyConfig();
+    } catch (proxyError) {
+      console.warn('[Preview] Proxy config update failed:', proxyError);
+    }
+
+    const containerIds = new Set(deployments.map((d) => d.container_id).filter(Boolean));
+    for (const containerId of containerIds) {
+      await DockerService.stopContainer(containerId as string).catch((error) =>
+        console.error(`[Preview] Failed to remove container ${containerId}:`, error)
+      );
+    }
+    for (const deployment of deployments.filter((d) => d.container_id)) {
+      await DockerService.stopProcessContainers(deployment.id).catch((error) =>
+        console.error(`[Preview] Failed to remove process containers of ${deployment.id}:`, error)
+      );
+    }
+
+    const imageNames = new Set(deployments.map((d) => d.image_name).filter(Boolean));
+    for (const imageName of imageNames) {
+      await DockerService.removeImage(imageName as string).catch((error) =>
+        console.error(`[Preview] Failed to remove image ${imageName}:`, error)
+      );
+    }
+
+    console.log(
+      `[Preview] Removed preview of pull request #${pullRequestNumber} (${containerIds.size} container(s), ${imageNames.size} image(s))`
+    );
+
+    return true;
+  }
+
+  /**
+   * List a project's previews, newest pull request first
+   */
+  static async listPreviews(
+    projectId: string,
+    userId: string,
+    status?: string
+  ): Promise<PreviewEnvironment[]> {
+    const project = await ProjectService.getProject(projectId, userId);
+
+    const values: unknown[] = [projectId];
+    if (status) {
+      values.push(status);
+    }
+
+    const result = await query<PreviewRow>(
+      `
+      SELECT ${PREVIEW_COLUMNS}
+      FROM preview_environments pv
+      ${LATEST_DEPLOYMENT_JOIN}
+      WHERE pv.project_id = $1 ${status ? 'AND pv.status = $2' : ''}
+      ORDER BY pv.pull_request_number DESC
+      `,
+      values
+    );
+
+    return result.rows.map((row) => this.toPreview(row, project.slug));
+  }
+
+  /**
+   * Get the preview of a pull request
+   */
+  static async getPreview(
+    projectId: string,
+    userId: string,
+    pullRequestNumber: number
+  ): Promise<PreviewEnvironment> {
+    const project = await ProjectService.getProject(projectId, userId);
+
+    const result = await query<PreviewRow>(
+      `
+      SELECT ${PREVIEW_COLUMNS}
+      FROM preview_environments pv
+      ${LATEST_DEPLOYMENT_JOIN}
+      WHERE pv.project_id = $1 AND pv.pull_request_number = $2
+      `,
+      [projectId, pullRequestNumber]
+    );
+
+    if (result.rowCount === 0) {
+      throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.NOT_FOUND, 'Preview not found');
+    }
+
+    return this.toPreview(result.rows[0], project.slug);
+  }
+
+  /**
+   * Create the environment for a preview
+   * It starts with the plain variables and variable groups of the environment tracking the
+   * pull request's base branch; secrets are not copied into previews
+   */
+  private static async createPreviewEnvironment(
+    project: { id: string; user_id: string },
+    pullRequest: PullRequestInfo
+  ): Promise<string> {
+    const candidates = await query<{ id: string; branch_patterns: string[] }>(
+      `
+      SELECT id, branch_patterns FROM environments
+      WHERE project_id = $1 AND type <> 'preview' AND deleted_at IS NULL
+      ORDER BY name ASC
+      `,
+      [project.id]
+    );
+    const base = candidates.rows.find((environment) =>
+      (environment.branch_patterns || []).some((pattern) =>
+        matchesBranchPattern(pattern, pullRequest.baseRef)
+      )
+    );
+
+    const environment = await EnvironmentService.createEnvironment(project.id, project.user_id, {
+      name: `pr-${pullRequest.number}`,
+      type: 'preview',
+      environmentVariables: base ? await EnvironmentService.getVariables(base.id) : {},
+    });
+
+    if (base) {
+      const groups = await VariableGroupService.getEnvironmentGroups(base.id, project.user_id);
+      for (const group of groups) {
+        await VariableGroupService.attachGroup(environment.id, project.user_id, group.id);
+      }
+    }
+
+    return environment.id;
+  }
+
+  private static toPreview(row: PreviewRow, slug: string): PreviewEnvironment {
+    const { deploymentId, deploymentStatus, deploymentCommitSha, deploymentError, ...preview } =
+      row;
+
+    const result: PreviewEnvironment = {
+      ...preview,
+      url: `https://${ProxyService.getPreviewHostname(slug, row.pullRequestNumber)}`,
+      latestDeployment: deploymentId
+        ? {
+            id: deploymentId,
+            status: deploymentStatus as string,
+            commitSha: deploymentCommitSha,
+            errorMessage: deploymentError,
+          }
+        : undefined,
+      comment: '',
+    };
+    result.comment = this.buildComment(result);
+    return result;
+  }
+
+  /**
+   * Markdown for a pull request comment describing the preview's current state
+   */
+  private static buildComment(preview: PreviewEnvironment): string {
+    const pullRequest = `#${preview.pullRequestNumber}`;
+    const deployment = preview.latestDeployment;
+    const commit = deployment?.commitSha ? ` (\`${deployment.commitSha.substring(0, 7)}\`)` : '';
+
+    if (preview.status === PREVIEW_STATUS.CLOSED) {
+      return `The preview for ${pullRequest} was removed when the pull request was closed.`;
+    }
+
+    switch (deployment?.status) {
+      case DEPLOYMENT_STATUS.SUCCESS:
+        return `Preview for ${pullRequest} is ready${commit}: ${preview.url}`;
+      case DEPLOYMENT_STATUS.FAILED:
+        return (
+          `Preview deployment for ${pullRequest} failed${commit}` +
+          (deployment.errorMessage ? `: ${deployment.errorMessage}` : '.')
+        );
+      default:
+        return `Preview for ${pullRequest} is deploying${commit}. It will be available at ${preview.url}`;
+    }
+  }
+}
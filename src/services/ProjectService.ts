@@ -3,6 +3,10 @@ import { Project, CreateProjectRequest } from '../types';
 import { HTTP_STATUS, ERROR_CODES } from '../constants';
 import { ApiError } from '../utils/error';
 import { DockerService } from './DockerService';
+import { GitHubOAuthService } from './GitHubOAuthService';
+import { GitService } from './GitService';
+import { ProxyService } from './ProxyService';
+import { WorkspaceService } from './WorkspaceService';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -20,6 +24,21 @@ export class ProjectService {
     return undefined;
   }
 
+  /**
+   * Reject repository URLs builds would refuse to fetch
+   */
+  private static assertAllowedRepositoryUrl(repositoryUrl: string): void {
+    try {
+      GitService.assertAllowedUrl(repositoryUrl);
+    } catch (error) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        error instanceof Error ? error.message : 'Invalid repository URL'
+      );
+    }
+  }
+
   /**
    * Create a new project
    */
@@ -30,6 +49,14 @@ export class ProjectService {
       .replace(/\s+/g, '-')
       .replace(/[^\w-]/g, '');
 
+    if (ProxyService.isReservedSlug(slug)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        `Project name "${data.name}" can't start with an environment prefix such as "staging-" or "pr-1-". Please use a different name.`
+      );
+    }
+
     // Validation: Check if slug already exists for an active project BEFORE doing expensive operations
     try {
       const slugCheck = await query(
@@ -56,12 +83,23 @@ export class ProjectService {
       );
     }
 
+    if (data.repositoryUrl) {
+      this.assertAllowedRepositoryUrl(data.repositoryUrl);
+    }
+
     // Auto-detect framework from repo if URL provided (only after slug validation)
     let framework = data.framework || 'node';
     if (data.repositoryUrl) {
       try {
-        console.log(`[Project] Auto-detecting framework for ${data.repositoryUrl}`);
-        const detectedFramework = await DockerService.detectFramework(data.repositoryUrl);
+        console.log(
+          `[Project] Auto-detecting framework for ${GitService.redactUrl(data.repositoryUrl)}`
+        );
+        // The project doesn't exist yet, so private repositories are read with the owner's token
+        const githubToken = await GitHubOAuthService.getGitHubToken(userId);
+        const detectedFramework = await DockerService.detectFramework(
+          data.repositoryUrl,
+          githubToken ? { type: 'token', token: githubToken.token } : undefined
+        );
 
         if (detectedFramework && detectedFramework !== 'node') {
           console.log(
@@ -238,6 +276,9 @@ export class ProjectService {
       values.push(data.description);
     }
     if (data.repositoryUrl !== undefined) {
+      if (data.repositoryUrl) {
+        this.assertAllowedRepositoryUrl(data.repositoryUrl);
+      }
       updates.push(`repository_url = $${paramCount++}`);
       values.push(data.repositoryUrl);
     }
@@ -286,5 +327,10 @@ export class ProjectService {
     if (result.rowCount === 0) {
       throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.PROJECT_NOT_FOUND, 'Project not found');
     }
+
+    // Free the disk space of the project's git workspace
+    await WorkspaceService.clear(projectId).catch((error) =>
+      console.error(`[Project] Failed to remove workspace of project ${projectId}:`, error)
+    );
   }
 }
@@ -0,0 +1,164 @@
+import config from '../config';
+import { ENVIRONMENT_TYPES } from '../constants';
+import { query } from '../database';
+import { ProxyRoute } from '../types';
+import { NginxConfigService } from './NginxConfigService';
+import { CaddyConfigService } from './CaddyConfigService';
+import { TraefikConfigService } from './TraefikConfigService';
+
+/**
+ * A reverse proxy backend that can route traffic to user containers
+ */
+export interface ProxyProvider {
+  apply(routes: ProxyRoute[]): Promise<void>;
+}
+
+/**
+ * Platform services routed alongside user deployments
+ */
+export interface PlatformRoute {
+  name: string;
+  hosts: string[];
+  port: number;
+}
+
+const PROVIDERS: Record<string, ProxyProvider> = {
+  nginx: { apply: (routes) => NginxConfigService.applyNginxConfig(routes) },
+  caddy: { apply: (routes) => CaddyConfigService.applyCaddyConfig(routes) },
+  traefik: { apply: (routes) => TraefikConfigService.applyTraefikConfig(routes) },
+};
+
+/**
+ * Proxy Service
+ * Builds the routing table from live deployments and hands it to the reverse proxy
+ * selected by PROXY_PROVIDER (nginx, caddy or traefik)
+ */
+export class ProxyService {
+  static readonly DOMAIN = 'gilgal.tech';
+
+  // Wildcard certificate covering every generated *.gilgal.tech hostname
+  static readonly WILDCARD_CERT_PATH = `/etc/letsencrypt/live/${ProxyService.DOMAIN}/fullchain.pem`;
+  static readonly WILDCARD_KEY_PATH = `/etc/letsencrypt/live/${ProxyService.DOMAIN}/privkey.pem`;
+
+  static readonly PLATFORM_ROUTES: PlatformRoute[] = [
+    { name: 'landing', hosts: [ProxyService.DOMAIN, `www.${ProxyService.DOMAIN}`], port: 8001 },
+    { name: 'docs', hosts: [`docs.${ProxyService.DOMAIN}`], port: 8002 },
+    { name: 'api', hosts: [`api.${ProxyService.DOMAIN}`], port: config.port },
+  ];
+
+  /**
+   * Regenerate routing for the configured proxy provider
+   */
+  static async applyConfig(): Promise<void> {
+    const provider = PROVIDERS[config.proxy.provider];
+    if (!provider) {
+      throw new Error(
+        `Unknown PROXY_PROVIDER "${config.proxy.provider}" (expected ${Object.keys(PROVIDERS).join(', ')})`
+      );
+    }
+
+    const routes = await this.getActiveRoutes();
+    console.log(`[Proxy] Applying ${config.proxy.provider} config for ${routes.length} route(s)`);
+    await provider.apply(routes);
+  }
+
+  /**
+   * Hostname prefixes of all but the first production environment (staging-, staging2-, pr-42-)
+   * Project slugs may not start with one, so every hostname belongs to a single project
+   */
+  private static readonly RESERVED_SLUG_PREFIX = new RegExp(
+    `^(pr-\\d+|(${Object.values(ENVIRONMENT_TYPES).join('|')})\\d*)-`
+  );
+
+  static isReservedSlug(slug: string): boolean {
+    return this.RESERVED_SLUG_PREFIX.test(slug);
+  }
+
+  /**
+   * Build the routed hostname for an environment
+   * The first production environment gets slug.gilgal.tech, the first of any other type
+   * gets type-slug.gilgal.tech (e.g. staging-slug), and additional environments of the
+   * same type are numbered by creation order (staging2-slug, production2-slug). Pull
+   * request previews get pr-N-slug.gilgal.tech
+   */
+  static getEnvironmentHostname(
+    slug: string,
+    environment: { name: string; type: string; typeRank: number; pullRequestNumber?: number }
+  ): string {
+    if (environment.pullRequestNumber) {
+      return this.getPreviewHostname(slug, environment.pullRequestNumber);
+    }
+
+    let prefix: string;
+    if (environment.typeRank > 1) {
+      prefix = `${environment.type}${environment.typeRank}`;
+    } else {
+      prefix = environment.type === ENVIRONMENT_TYPES.PRODUCTION ? '' : environment.type;
+    }
+
+    return prefix ? `${prefix}-${slug}.${this.DOMAIN}` : `${slug}.${this.DOMAIN}`;
+  }
+
+  /**
+   * Hostname of a pull request preview environment
+   */
+  static getPreviewHostname(slug: string, pullRequestNumber: number): string {
+    return `pr-${pullRequestNumber}-${slug}.${this.DOMAIN}`;
+  }
+
+  /**
+   * Get the routes for all active deployments
+   * Returns the latest successful deployment of every environment of non-deleted projects
+   */
+  static async getActiveRoutes(): Promise<ProxyRoute[]> {
+    try {
+      const result = await query(
+        `
+        SELECT DISTINCT ON (d.environment_id)
+          p.slug,
+          d.container_port as port,
+          p.id as project_id,
+          e.id as environment_id,
+          e.name as environment_name,
+          e.type as environment_type,
+          CASE WHEN e.domain_status = 'verified' THEN e.domain END AS domain,
+          c.cert_path as certificate_path,
+          c.key_path as certificate_key_path,
+          e.type_rank,
+          pv.pull_request_number
+        FROM deployments d
+        JOIN projects p ON d.project_id = p.id
+        JOIN (
+          SELECT id, name, type, domain, domain_status,
+                 ROW_NUMBER() OVER (PARTITION BY project_id, type ORDER BY created_at, id) AS type_rank
+          FROM environments
+          WHERE deleted_at IS NULL
+        ) e ON d.environment_id = e.id
+        LEFT JOIN preview_environments pv ON pv.environment_id = e.id
+        LEFT JOIN certificates c
+          ON c.domain = e.domain AND e.domain_status = 'verified' AND c.cert_path IS NOT NULL
+        WHERE d.status = 'success'
+          AND d.container_port IS NOT NULL
+          AND p.deleted_at IS NULL
+        ORDER BY d.environment_id, d.deployed_at DESC
+        `,
+        []
+      );
+
+      return result.rows
+        .map(({ type_rank, pull_request_number, ...row }) => ({
+          ...row,
+          hostname: this.getEnvironmentHostname(row.slug, {
+            name: row.environment_name,
+            type: row.environment_type,
+            typeRank: parseInt(type_rank, 10),
+            pullRequestNumber: pull_request_number || undefined,
+          }),
+        }))
+        .sort((a, b) => a.hostname.localeCompare(b.hostname));
+    } catch (error) {
+      console.error('[Proxy] Error fetching active routes:', error);
+      throw error;
+    }
+  }
+}
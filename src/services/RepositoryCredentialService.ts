@@ -0,0 +1,139 @@
+import { query } from '../database';
+import { DeployKeyStatus } from '../types';
+import { HTTP_STATUS, ERROR_CODES } from '../constants';
+import { ApiError } from '../utils/error';
+import { GitCredentials } from './GitService';
+import { ProjectService } from './ProjectService';
+import { EncryptedSecret, SecretService } from './SecretService';
+
+/**
+ * Repository Credential Service
+ * Picks the credential a build uses to fetch a project's repository: the project's SSH
+ * deploy key if it has one, otherwise the owner's GitHub token, otherwise none
+ * Deploy keys are stored encrypted and never returned by the API
+ */
+export class RepositoryCredentialService {
+  private static readonly PRIVATE_KEY_PATTERN =
+    /^-----BEGIN ([A-Z0-9]+ )*PRIVATE KEY-----\r?\n[\s\S]+\r?\n-----END ([A-Z0-9]+ )*PRIVATE KEY-----$/;
+
+  /**
+   * Credentials for building a project
+   */
+  static async getProjectCredentials(projectId: string): Promise<GitCredentials | undefined> {
+    const result = await query<{ deploy_key: EncryptedSecret | null; github_token: string | null }>(
+      `
+      SELECT p.deploy_key, u.github_token
+      FROM projects p
+      JOIN users u ON p.user_id = u.id
+      WHERE p.id = $1
+      `,
+      [projectId]
+    );
+
+    const row = result.rows[0];
+    if (row?.deploy_key) {
+      return { type: 'deploy-key', privateKey: SecretService.decrypt(row.deploy_key) };
+    }
+    if (row?.github_token) {
+      return { type: 'token', token: row.github_token };
+    }
+    return undefined;
+  }
+
+  /**
+   * Show whether a deploy key is set and which credential builds will use
+   */
+  static async getDeployKeyStatus(projectId: string, userId: string): Promise<DeployKeyStatus> {
+    await ProjectService.getProject(projectId, userId);
+
+    const result = await query<{
+      has_deploy_key: boolean;
+      deploy_key_updated_at: Date | null;
+      repository_url: string | null;
+      has_github_token: boolean;
+    }>(
+      `
+      SELECT p.deploy_key IS NOT NULL as has_deploy_key, p.deploy_key_updated_at,
+             p.repository_url, u.github_token IS NOT NULL as has_github_token
+      FROM projects p
+      JOIN users u ON p.user_id = u.id
+      WHERE p.id = $1
+      `,
+      [projectId]
+    );
+
+    const row = result.rows[0];
+    let buildCredential: DeployKeyStatus['buildCredential'] = 'none';
+    if (row.has_deploy_key) {
+      buildCredential = 'deploy-key';
+    } else if (row.has_github_token && /^https:\/\/github\.com\//i.test(row.repository_url || '')) {
+      // The token is only ever sent to github.com
+      buildCredential = 'github-token';
+    }
+
+    return {
+      configured: row.has_deploy_key,
+      updatedAt: row.deploy_key_updated_at || undefined,
+      buildCredential,
+    };
+  }
+
+  /**
+   * Store (or replace) a project's SSH deploy key
+   */
+  static async setDeployKey(
+    projectId: string,
+    userId: string,
+    privateKey: unknown
+  ): Promise<DeployKeyStatus> {
+    await ProjectService.getProject(projectId, userId);
+
+    if (typeof privateKey !== 'string' || !this.PRIVATE_KEY_PATTERN.test(privateKey.trim())) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        'privateKey must be a PEM or OpenSSH private key'
+      );
+    }
+    if (/ENCRYPTED/.test(privateKey)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Passphrase-protected keys are not supported'
+      );
+    }
+
+    await query(
+      `
+      UPDATE projects
+      SET deploy_key = $1, deploy_key_updated_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $2
+      `,
+      [JSON.stringify(SecretService.encrypt(privateKey.trim())), projectId]
+    );
+
+    console.log(`[Credentials] Deploy key set for project ${projectId}`);
+
+    return this.getDeployKeyStatus(projectId, userId);
+  }
+
+  /**
+   * Remove a project's deploy key; builds fall back to the owner's GitHub token
+   */
+  static async removeDeployKey(projectId: string, userId: string): Promise<DeployKeyStatus> {
+    await ProjectService.getProject(projectId, userId);
+
+    await query(
+      `
+      UPDATE projects
+      SET deploy_key = NULL, deploy_key_updated_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      `,
+      [projectId]
+    );
+
+    console.log(`[Credentials] Deploy key removed from project ${projectId}`);
+
+    return this.getDeployKeyStatus(projectId, userId);
+  }
+}
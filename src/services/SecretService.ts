@@ -0,0 +1,298 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import config from '../config';
+import { query } from '../database';
+import { HTTP_STATUS, ERROR_CODES } from '../constants';
+import { ApiError } from '../utils/error';
+
+export interface EncryptedSecret {
+  ciphertext: string;
+  wrappedKey: string;
+  masterKeyId: string;
+  fingerprint: string;
+}
+
+/**
+ * Secret Service
+ * Write-only environment secrets with envelope encryption: every value is encrypted with
+ * its own AES-256-GCM data key, and that data key is encrypted ("wrapped") with the
+ * master key from config. Values are only decrypted when a deployment starts its container.
+ */
+export class SecretService {
+  static readonly MASKED_VALUE = '********';
+  static readonly KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+  private static readonly ALGORITHM = 'aes-256-gcm';
+  private static readonly IV_LENGTH = 12;
+  private static readonly TAG_LENGTH = 16;
+
+  /**
+   * Create, update (string) or delete (null) secrets on an environment
+   */
+  static async setSecrets(
+    environmentId: string,
+    secrets: Record<string, string | null>
+  ): Promise<void> {
+    this.validateSecrets(secrets);
+
+    for (const [key, value] of Object.entries(secrets)) {
+      if (value === null) {
+        await query('DELETE FROM environment_secrets WHERE environment_id = $1 AND key = $2', [
+          environmentId,
+          key,
+        ]);
+        continue;
+      }
+
+      const encrypted = this.encrypt(value);
+      await query(
+        `
+        INSERT INTO environment_secrets
+          (environment_id, key, ciphertext, wrapped_key, master_key_id, fingerprint)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (environment_id, key) DO UPDATE
+        SET ciphertext = EXCLUDED.ciphertext,
+            wrapped_key = EXCLUDED.wrapped_key,
+            master_key_id = EXCLUDED.master_key_id,
+            fingerprint = EXCLUDED.fingerprint,
+            updated_at = CURRENT_TIMESTAMP
+        `,
+        [
+          environmentId,
+          key,
+          encrypted.ciphertext,
+          encrypted.wrappedKey,
+          encrypted.masterKeyId,
+          encrypted.fingerprint,
+        ]
+      );
+    }
+  }
+
+  /**
+   * Check a secrets payload before anything is written
+   * Values must be strings (or null to delete), and storing any value needs a master key
+   */
+  static validateSecrets(secrets: unknown): asserts secrets is Record<string, string | null> {
+    if (!secrets || typeof secrets !== 'object' || Array.isArray(secrets)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Secrets must be an object of names to values'
+      );
+    }
+
+    for (const [key, value] of Object.entries(secrets)) {
+      this.assertValidKey(key);
+      if (value !== null && typeof value !== 'string') {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          `Secret ${key} must be a string (or null to delete it)`
+        );
+      }
+    }
+
+    if (Object.values(secrets).some((value) => value !== null)) {
+      this.getMasterKey();
+    }
+  }
+
+  /**
+   * Secret names per environment (values are never returned by the API)
+   */
+  static async getSecretKeys(environmentIds: string[]): Promise<Map<string, string[]>> {
+    const keys = new Map<string, string[]>();
+    if (environmentIds.length === 0) {
+      return keys;
+    }
+
+    const result = await query<{ environment_id: string; key: string }>(
+      `
+      SELECT environment_id, key
+      FROM environment_secrets
+      WHERE environment_id = ANY($1::uuid[])
+      ORDER BY key ASC
+      `,
+      [environmentIds]
+    );
+
+    for (const row of result.rows) {
+      keys.set(row.environment_id, [...(keys.get(row.environment_id) || []), row.key]);
+    }
+
+    return keys;
+  }
+
+  /**
+   * Mask secret names for an API response
+   */
+  static mask(keys: string[]): Record<string, string> {
+    return Object.fromEntries(keys.map((key) => [key, this.MASKED_VALUE]));
+  }
+
+  /**
+   * Encrypted secrets of an environment, for snapshotting into a variables revision
+   */
+  static async getEncryptedSecrets(
+    client: PoolClient,
+    environmentId: string
+  ): Promise<Record<string, EncryptedSecret>> {
+    const result = await client.query<{
+      key: string;
+      ciphertext: string;
+      wrapped_key: string;
+      master_key_id: string;
+      fingerprint: string;
+    }>(
+      `
+      SELECT key, ciphertext, wrapped_key, master_key_id, fingerprint
+      FROM environment_secrets
+      WHERE environment_id = $1
+      ORDER BY key ASC
+      `,
+      [environmentId]
+    );
+
+    return Object.fromEntries(
+      result.rows.map((row) => [
+        row.key,
+        {
+          ciphertext: row.ciphertext,
+          wrappedKey: row.wrapped_key,
+          masterKeyId: row.master_key_id,
+          fingerprint: row.fingerprint,
+        },
+      ])
+    );
+  }
+
+  /**
+   * Replace all secrets of an environment with previously encrypted ones (revision restore)
+   */
+  static async replaceSecrets(
+    client: PoolClient,
+    environmentId: string,
+    secrets: Record<string, EncryptedSecret>
+  ): Promise<void> {
+    await client.query('DELETE FROM environment_secrets WHERE environment_id = $1', [
+      environmentId,
+    ]);
+
+    for (const [key, secret] of Object.entries(secrets)) {
+      await client.query(
+        `
+        INSERT INTO environment_secrets
+          (environment_id, key, ciphertext, wrapped_key, master_key_id, fingerprint)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        `,
+        [
+          environmentId,
+          key,
+          secret.ciphertext,
+          secret.wrappedKey,
+          secret.masterKeyId,
+          secret.fingerprint,
+        ]
+      );
+    }
+  }
+
+  /**
+   * Decrypt a set of secrets
+   * Only the deployment pipeline should call this, right before starting a container
+   */
+  static decryptSecrets(secrets: Record<string, EncryptedSecret>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(secrets).map(([key, secret]) => [key, this.decrypt(secret)])
+    );
+  }
+
+  /**
+   * Encrypt a value under a fresh data key, wrapped with the master key
+   */
+  static encrypt(value: string): EncryptedSecret {
+    const masterKey = this.getMasterKey();
+    const dataKey = crypto.randomBytes(32);
+
+    return {
+      ciphertext: this.seal(dataKey, Buffer.from(value, 'utf-8')),
+      wrappedKey: this.seal(masterKey, dataKey),
+      masterKeyId: this.getMasterKeyId(masterKey),
+      fingerprint: this.fingerprint(value),
+    };
+  }
+
+  /**
+   * Unwrap the data key and decrypt the value
+   */
+  static decrypt(secret: EncryptedSecret): string {
+    const masterKey = this.getMasterKey();
+    if (secret.masterKeyId !== this.getMasterKeyId(masterKey)) {
+      throw new Error(
+        `Secret was encrypted with a different master key (${secret.masterKeyId}); check SECRETS_MASTER_KEY`
+      );
+    }
+
+    const dataKey = this.open(masterKey, secret.wrappedKey);
+    return this.open(dataKey, secret.ciphertext).toString('utf-8');
+  }
+
+  /**
+   * Keyed hash of a value, so changes can be detected without decrypting
+   */
+  static fingerprint(value: string): string {
+    return crypto
+      .createHmac('sha256', this.getMasterKey())
+      .update(`fingerprint:${value}`)
+      .digest('hex');
+  }
+
+  static assertValidKey(key: string): void {
+    if (!this.KEY_PATTERN.test(key)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        `Invalid variable name "${key}" (letters, digits and underscores, not starting with a digit)`
+      );
+    }
+  }
+
+  /**
+   * AES-256-GCM encrypt; output is base64(iv | tag | ciphertext)
+   */
+  private static seal(key: Buffer, plaintext: Buffer): string {
+    const iv = crypto.randomBytes(this.IV_LENGTH);
+    const cipher = crypto.createCipheriv(this.ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+  }
+
+  private static open(key: Buffer, sealed: string): Buffer {
+    const data = Buffer.from(sealed, 'base64');
+    const iv = data.subarray(0, this.IV_LENGTH);
+    const tag = data.subarray(this.IV_LENGTH, this.IV_LENGTH + this.TAG_LENGTH);
+    const decipher = crypto.createDecipheriv(this.ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(data.subarray(this.IV_LENGTH + this.TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  }
+
+  private static getMasterKey(): Buffer {
+    const masterKey = Buffer.from(config.secrets.masterKey, 'base64');
+    if (masterKey.length !== 32) {
+      throw new ApiError(
+        HTTP_STATUS.INTERNAL_SERVER_ERROR,
+        ERROR_CODES.SECRETS_NOT_CONFIGURED,
+        'SECRETS_MASTER_KEY must be set to 32 bytes of base64 to use secrets'
+      );
+    }
+    return masterKey;
+  }
+
+  private static getMasterKeyId(masterKey: Buffer): string {
+    return crypto.createHash('sha256').update(masterKey).digest('hex').slice(0, 16);
+  }
+}
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import config from '../config';
+import { ProxyRoute } from '../types';
+import { ProxyService } from './ProxyService';
+
+interface TraefikRouter {
+  rule: string;
+  service: string;
+  entryPoints: string[];
+  middlewares?: string[];
+  priority?: number;
+  tls?: Record<string, never>;
+}
+
+/**
+ * Traefik Config Service
+ * Traefik proxy provider: writes a dynamic configuration file for Traefik's file provider
+ * Traefik watches the file and applies changes on its own, so no reload is needed
+ */
+export class TraefikConfigService {
+  private static readonly REDIRECT_MIDDLEWARE = 'gilgal-redirect-https';
+
+  /**
+   * Generate Traefik dynamic configuration for the given routes
+   */
+  static generateTraefikConfig(routes: ProxyRoute[]): Record<string, unknown> {
+    const { traefikHttpEntryPoint: web, traefikHttpsEntryPoint: websecure } = config.proxy;
+    const routers: Record<string, TraefikRouter> = {};
+    const services: Record<string, unknown> = {};
+
+    const addService = (name: string, port: number): void => {
+      services[name] = { loadBalancer: { servers: [{ url: `http://localhost:${port}` }] } };
+    };
+
+    // HTTPS router plus an HTTP router that redirects to it
+    // Traefik picks the matching certificate from tls.certificates by SNI
+    const addSecureRouters = (name: string, hosts: string[], service = name): void => {
+      const rule = hosts.map((host) => `Host(\`${host}\`)`).join(' || ');
+      routers[name] = { rule, service, entryPoints: [websecure], tls: {} };
+      routers[`${name}-http`] = {
+        rule,
+        service,
+        entryPoints: [web],
+        middlewares: [this.REDIRECT_MIDDLEWARE],
+      };
+    };
+
+    for (const platform of ProxyService.PLATFORM_ROUTES) {
+      addService(platform.name, platform.port);
+      addSecureRouters(platform.name, platform.hosts);
+    }
+
+    for (const route of routes) {
+      const name = `env-${route.environment_id}`;
+      addService(name, route.port);
+      addSecureRouters(name, [route.hostname]);
+
+      if (!route.domain) {
+        continue;
+      }
+
+      // Custom domain: ACME challenges go to the API, and the app is served over plain
+      // HTTP until CertificateService has issued the domain's certificate
+      routers[`${name}-acme`] = {
+        rule: `Host(\`${route.domain}\`) && PathPrefix(\`/.well-known/acme-challenge/\`)`,
+        service: 'api',
+        entryPoints: [web],
+        priority: 1000,
+      };
+
+      if (route.certificate_path) {
+        addSecureRouters(`${name}-domain`, [route.domain], name);
+      } else {
+        routers[`${name}-domain-http`] = {
+          rule: `Host(\`${route.domain}\`)`,
+          service: name,
+          entryPoints: [web],
+        };
+      }
+    }
+
+    const certificates = [
+      { certFile: ProxyService.WILDCARD_CERT_PATH, keyFile: ProxyService.WILDCARD_KEY_PATH },
+      ...routes
+        .filter((route) => route.certificate_path && route.certificate_key_path)
+        .map((route) => ({
+          certFile: route.certificate_path,
+          keyFile: route.certificate_key_path,
+        })),
+    ];
+
+    return {
+      http: {
+        routers,
+        services,
+        middlewares: {
+          [this.REDIRECT_MIDDLEWARE]: { redirectScheme: { scheme: 'https', permanent: true } },
+        },
+      },
+      tls: { certificates },
+    };
+  }
+
+  /**
+   * Write the dynamic config file atomically so Traefik never reads a partial file
+   * JSON is valid YAML, so the file can keep Traefik's usual .yml extension
+   */
+  static async applyTraefikConfig(routes: ProxyRoute[]): Promise<void> {
+    const traefikConfig = this.generateTraefikConfig(routes);
+    const configPath = config.proxy.traefikConfigPath;
+    const contents = `# Auto-generated by Gilgal PaaS - DO NOT EDIT MANUALLY
+# Generated: ${new Date().toISOString()}
+${JSON.stringify(traefikConfig, null, 2)}
+`;
+
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    const tempPath = `${configPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, contents, 'utf-8');
+    fs.renameSync(tempPath, configPath);
+
+    console.log(`[TraefikConfig] Wrote ${routes.length} route(s) to ${configPath}`);
+  }
+}
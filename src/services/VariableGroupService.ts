@@ -0,0 +1,322 @@
+import { PoolClient } from 'pg';
+import { query } from '../database';
+import {
+  CreateVariableGroupRequest,
+  EffectiveVariable,
+  VariableGroup,
+  VariableSource,
+} from '../types';
+import { HTTP_STATUS, ERROR_CODES } from '../constants';
+import { ApiError } from '../utils/error';
+import { EnvironmentService } from './EnvironmentService';
+import { SecretService } from './SecretService';
+
+const GROUP_COLUMNS = `
+  g.id,
+  g.user_id as "userId",
+  g.name,
+  g.description,
+  g.variables,
+  g.created_at as "createdAt",
+  g.updated_at as "updatedAt"
+`;
+
+/**
+ * Variable Group Service
+ * User-owned variable sets (e.g. a shared Sentry DSN) attached to any of the user's
+ * environments. At deploy time groups apply first, in the order they were attached,
+ * then the environment's own variables, then its secrets
+ */
+export class VariableGroupService {
+  /**
+   * Create a variable group
+   */
+  static async createGroup(
+    userId: string,
+    data: CreateVariableGroupRequest
+  ): Promise<VariableGroup> {
+    this.validateVariables(data.variables);
+    await this.assertNameAvailable(userId, data.name);
+
+    const result = await query<VariableGroup>(
+      `
+      INSERT INTO variable_groups AS g (user_id, name, description, variables)
+      VALUES ($1, $2, $3, $4)
+      RETURNING ${GROUP_COLUMNS}
+      `,
+      [userId, data.name, data.description || null, JSON.stringify(data.variables || {})]
+    );
+
+    return { ...result.rows[0], environmentCount: 0 };
+  }
+
+  /**
+   * List the user's variable groups with how many environments use each
+   */
+  static async listGroups(userId: string): Promise<VariableGroup[]> {
+    const result = await query<VariableGroup>(
+      `
+      SELECT ${GROUP_COLUMNS},
+             (SELECT COUNT(*)::int FROM environment_variable_groups eg
+              JOIN environments e ON eg.environment_id = e.id
+              WHERE eg.group_id = g.id AND e.deleted_at IS NULL) as "environmentCount"
+      FROM variable_groups g
+      WHERE g.user_id = $1
+      ORDER BY g.name ASC
+      `,
+      [userId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get a variable group with ownership verification
+   */
+  static async getGroup(groupId: string, userId: string): Promise<VariableGroup> {
+    const result = await query<VariableGroup>(
+      `
+      SELECT ${GROUP_COLUMNS},
+             (SELECT COUNT(*)::int FROM environment_variable_groups eg
+              JOIN environments e ON eg.environment_id = e.id
+              WHERE eg.group_id = g.id AND e.deleted_at IS NULL) as "environmentCount"
+      FROM variable_groups g
+      WHERE g.id = $1 AND g.user_id = $2
+      `,
+      [groupId, userId]
+    );
+
+    if (result.rowCount === 0) {
+      throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.NOT_FOUND, 'Variable group not found');
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Update a variable group; changes apply to attached environments on their next deployment
+   */
+  static async updateGroup(
+    groupId: string,
+    userId: string,
+    data: Partial<CreateVariableGroupRequest>
+  ): Promise<VariableGroup> {
+    const current = await this.getGroup(groupId, userId);
+
+    const updates: string[] = [];
+    const values: unknown[] = [];
+    let paramCount = 1;
+
+    if (data.name !== undefined && data.name !== current.name) {
+      await this.assertNameAvailable(userId, data.name);
+      updates.push(`name = $${paramCount++}`);
+      values.push(data.name);
+    }
+    if (data.description !== undefined) {
+      updates.push(`description = $${paramCount++}`);
+      values.push(data.description || null);
+    }
+    if (data.variables !== undefined) {
+      this.validateVariables(data.variables);
+      updates.push(`variables = $${paramCount++}`);
+      values.push(JSON.stringify(data.variables));
+    }
+
+    if (updates.length === 0) {
+      return current;
+    }
+
+    updates.push('updated_at = CURRENT_TIMESTAMP');
+    values.push(groupId);
+
+    await query(
+      `UPDATE variable_groups SET ${updates.join(', ')} WHERE id = $${paramCount}`,
+      values
+    );
+
+    return this.getGroup(groupId, userId);
+  }
+
+  /**
+   * Delete a variable group, detaching it from every environment
+   */
+  static async deleteGroup(groupId: string, userId: string): Promise<void> {
+    const result = await query('DELETE FROM variable_groups WHERE id = $1 AND user_id = $2', [
+      groupId,
+      userId,
+    ]);
+
+    if (result.rowCount === 0) {
+      throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.NOT_FOUND, 'Variable group not found');
+    }
+  }
+
+  /**
+   * Groups attached to an environment, in the order they apply
+   */
+  static async getEnvironmentGroups(
+    environmentId: string,
+    userId: string
+  ): Promise<VariableGroup[]> {
+    await EnvironmentService.getEnvironment(environmentId, userId);
+    return this.getAttachedGroups(environmentId);
+  }
+
+  /**
+   * Attach one of the user's groups to an environment (applied after groups attached earlier)
+   */
+  static async attachGroup(
+    environmentId: string,
+    userId: string,
+    groupId: string
+  ): Promise<VariableGroup[]> {
+    await EnvironmentService.getEnvironment(environmentId, userId);
+    await this.getGroup(groupId, userId);
+
+    await query(
+      `
+      INSERT INTO environment_variable_groups (environment_id, group_id)
+      VALUES ($1, $2)
+      ON CONFLICT (environment_id, group_id) DO NOTHING
+      `,
+      [environmentId, groupId]
+    );
+
+    return this.getAttachedGroups(environmentId);
+  }
+
+  /**
+   * Detach a group from an environment
+   */
+  static async detachGroup(environmentId: string, userId: string, groupId: string): Promise<void> {
+    await EnvironmentService.getEnvironment(environmentId, userId);
+
+    const result = await query(
+      'DELETE FROM environment_variable_groups WHERE environment_id = $1 AND group_id = $2',
+      [environmentId, groupId]
+    );
+
+    if (result.rowCount === 0) {
+      throw new ApiError(
+        HTTP_STATUS.NOT_FOUND,
+        ERROR_CODES.NOT_FOUND,
+        'Variable group is not attached to this environment'
+      );
+    }
+  }
+
+  /**
+   * Merged variables from all groups attached to an environment, for snapshotting into a
+   * variables revision
+   */
+  static async getMergedGroupVariables(
+    client: PoolClient,
+    environmentId: string
+  ): Promise<Record<string, string>> {
+    const result = await client.query<{ variables: Record<string, string> }>(
+      `
+      SELECT g.variables
+      FROM environment_variable_groups eg
+      JOIN variable_groups g ON eg.group_id = g.id
+      WHERE eg.environment_id = $1
+      ORDER BY eg.created_at ASC, g.name ASC
+      `,
+      [environmentId]
+    );
+    return Object.assign({}, ...result.rows.map((group) => group.variables));
+  }
+
+  /**
+   * The variables the next deployment of an environment would get, with where each
+   * value comes from. Secret values stay masked
+   */
+  static async getEffectiveVariables(
+    environmentId: string,
+    userId: string
+  ): Promise<EffectiveVariable[]> {
+    const environment = await EnvironmentService.getEnvironment(environmentId, userId);
+    const groups = await this.getAttachedGroups(environmentId);
+    const environmentVariables = await EnvironmentService.getVariables(environmentId);
+
+    const effective = new Map<string, EffectiveVariable>();
+    const apply = (key: string, value: string, source: VariableSource): void => {
+      const previous = effective.get(key);
+      const overridden = previous
+        ? [
+            ...previous.overridden,
+            { source: previous.source, groupId: previous.groupId, groupName: previous.groupName },
+          ]
+        : [];
+      effective.set(key, { key, value, ...source, overridden });
+    };
+
+    for (const group of groups) {
+      for (const [key, value] of Object.entries(group.variables)) {
+        apply(key, value, { source: 'group', groupId: group.id, groupName: group.name });
+      }
+    }
+    for (const [key, value] of Object.entries(environmentVariables)) {
+      apply(key, value, { source: 'environment' });
+    }
+    for (const [key, value] of Object.entries(environment.secrets || {})) {
+      apply(key, value, { source: 'secret' });
+    }
+
+    return [...effective.values()].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  private static async getAttachedGroups(environmentId: string): Promise<VariableGroup[]> {
+    const result = await query<VariableGroup>(
+      `
+      SELECT ${GROUP_COLUMNS}
+      FROM environment_variable_groups eg
+      JOIN variable_groups g ON eg.group_id = g.id
+      WHERE eg.environment_id = $1
+      ORDER BY eg.created_at ASC, g.name ASC
+      `,
+      [environmentId]
+    );
+
+    return result.rows;
+  }
+
+  private static async assertNameAvailable(userId: string, name: string): Promise<void> {
+    const existing = await query(
+      'SELECT id FROM variable_groups WHERE user_id = $1 AND name = $2',
+      [userId, name]
+    );
+
+    if ((existing.rowCount || 0) > 0) {
+      throw new ApiError(
+        HTTP_STATUS.CONFLICT,
+        ERROR_CODES.VALIDATION_ERROR,
+        `Variable group "${name}" already exists. Please use a different name.`
+      );
+    }
+  }
+
+  private static validateVariables(variables: unknown): void {
+    if (variables === undefined) {
+      return;
+    }
+
+    if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+      throw new ApiError(
+        HTTP_STATUS.BAD_REQUEST,
+        ERROR_CODES.VALIDATION_ERROR,
+        'Variables must be an object of names to values'
+      );
+    }
+
+    for (const [key, value] of Object.entries(variables)) {
+      SecretService.assertValidKey(key);
+      if (typeof value !== 'string') {
+        throw new ApiError(
+          HTTP_STATUS.BAD_REQUEST,
+          ERROR_CODES.VALIDATION_ERROR,
+          `Variable ${key} must be a string`
+        );
+      }
+    }
+  }
+}
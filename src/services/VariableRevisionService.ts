@@ -0,0 +1,356 @@
+import { PoolClient } from 'pg';
+import { query, transaction } from '../database';
+import { EnvironmentVariableDiff, EnvironmentVariableRevision, VariableChange } from '../types';
+import { HTTP_STATUS, ERROR_CODES } from '../constants';
+import { ApiError } from '../utils/error';
+import { EnvironmentService } from './EnvironmentService';
+import { EncryptedSecret, SecretService } from './SecretService';
+import { VariableGroupService } from './VariableGroupService';
+
+/**
+ * Revision as stored, with secrets still encrypted
+ */
+interface RevisionSnapshot {
+  id: string;
+  revision: number;
+  variables: Record<string, string>;
+  groupVariables: Record<string, string>;
+  secrets: Record<string, EncryptedSecret>;
+}
+
+type StoredRevision = Omit<EnvironmentVariableRevision, 'secrets'> & {
+  secrets: Record<string, EncryptedSecret>;
+};
+
+/**
+ * Variable Revision Service
+ * Keeps an append-only history of each environment's variables and secrets
+ * Every change is saved as a numbered revision; restoring an old one saves a new revision,
+ * and each deployment records the revision it ran with. Revisions also hold the merged
+ * values of the environment's variable groups, so a deployment runs with exactly the
+ * revision it recorded even if a group changes later
+ */
+export class VariableRevisionService {
+  private static readonly REVISION_COLUMNS = `
+    r.id,
+    r.environment_id as "environmentId",
+    r.revision,
+    r.variables,
+    r.group_variables as "groupVariables",
+    r.secrets,
+    r.created_by as "createdBy",
+    u.email as "createdByEmail",
+    r.restored_from as "restoredFrom",
+    r.created_at as "createdAt"
+  `;
+
+  /**
+   * Save the environment's current variables, group values and secrets as a new revision
+   * Nothing is saved when they match the latest revision; its number is returned instead
+   */
+  static async recordRevision(environmentId: string, userId: string | null): Promise<number> {
+    const snapshot = await transaction((client) =>
+      this.recordRevisionWith(client, environmentId, userId, null)
+    );
+    return snapshot.revision;
+  }
+
+  /**
+   * Revision a deployment should run with: the environment's current state, recorded
+   * first if it isn't saved yet. Secrets are returned encrypted
+   */
+  static async getDeploymentSnapshot(environmentId: string): Promise<RevisionSnapshot> {
+    return transaction((client) => this.recordRevisionWith(client, environmentId, null, null));
+  }
+
+  /**
+   * List revisions of an environment, newest first
+   */
+  static async listRevisions(
+    environmentId: string,
+    userId: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ revisions: EnvironmentVariableRevision[]; total: number }> {
+    await EnvironmentService.getEnvironment(environmentId, userId);
+
+    const revisionsResult = await query<StoredRevision>(
+      `
+      SELECT ${this.REVISION_COLUMNS}
+      FROM environment_variable_revisions r
+      LEFT JOIN users u ON r.created_by = u.id
+      WHERE r.environment_id = $1
+      ORDER BY r.revision DESC
+      LIMIT $2 OFFSET $3
+      `,
+      [environmentId, limit, offset]
+    );
+
+    const countResult = await query<{ count: number }>(
+      'SELECT COUNT(*) as count FROM environment_variable_revisions WHERE environment_id = $1',
+      [environmentId]
+    );
+
+    return {
+      revisions: revisionsResult.rows.map((revision) => this.maskRevision(revision)),
+      total: parseInt(String(countResult.rows[0]?.count || '0'), 10),
+    };
+  }
+
+  /**
+   * Get a single revision with secrets masked
+   */
+  static async getRevision(
+    environmentId: string,
+    userId: string,
+    revision: number
+  ): Promise<EnvironmentVariableRevision> {
+    await EnvironmentService.getEnvironment(environmentId, userId);
+
+    const stored = await this.findRevision(environmentId, revision);
+    return this.maskRevision(stored);
+  }
+
+  /**
+   * Diff a revision against another one (by default the revision before it)
+   * Secret values are never shown; a secret counts as changed when its value differs
+   */
+  static async diffRevisions(
+    environmentId: string,
+    userId: string,
+    revision: number,
+    against?: number
+  ): Promise<EnvironmentVariableDiff> {
+    await EnvironmentService.getEnvironment(environmentId, userId);
+
+    const target = await this.findRevision(environmentId, revision);
+    const againstRevision = against ?? revision - 1;
+    const base =
+      against !== undefined || againstRevision > 0
+        ? await this.findRevision(environmentId, againstRevision)
+        : null;
+
+    const before = this.flatten(base);
+    const after = this.flatten(target);
+
+    const added: VariableChange[] = [];
+    const removed: VariableChange[] = [];
+    const changed: VariableChange[] = [];
+
+    for (const [key, entry] of after) {
+      const previous = before.get(key);
+      if (!previous) {
+        added.push({ key, secret: entry.secret, newValue: entry.value });
+      } else if (previous.compareBy !== entry.compareBy) {
+        changed.push({
+          key,
+          secret: entry.secret,
+          oldValue: previous.value,
+          newValue: entry.value,
+        });
+      }
+    }
+    for (const [key, entry] of before) {
+      if (!after.has(key)) {
+        removed.push({ key, secret: entry.secret, oldValue: entry.value });
+      }
+    }
+
+    return { from: base?.revision ?? null, to: target.revision, added, removed, changed };
+  }
+
+  /**
+   * Put an old revision's variables and secrets back, saved as a new revision
+   * Variable groups are shared and left as they are; the new revision records their
+   * current values. Takes effect on the next deployment
+   */
+  static async restoreRevision(
+    environmentId: string,
+    userId: string,
+    revision: number
+  ): Promise<EnvironmentVariableRevision> {
+    await EnvironmentService.getEnvironment(environmentId, userId);
+
+    const restored = await transaction(async (client) => {
+      await client.query('SELECT id FROM environments WHERE id = $1 FOR UPDATE', [environmentId]);
+
+      const result = await client.query<RevisionSnapshot>(
+        `
+        SELECT id, revision, variables, group_variables as "groupVariables", secrets
+        FROM environment_variable_revisions
+        WHERE environment_id = $1 AND revision = $2
+        `,
+        [environmentId, revision]
+      );
+      const target = result.rows[0];
+      if (!target) {
+        throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.NOT_FOUND, 'Revision not found');
+      }
+
+      await client.query(
+        `
+        UPDATE environments
+        SET environment_variables = $1, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $2
+        `,
+        [JSON.stringify(target.variables), environmentId]
+      );
+      await SecretService.replaceSecrets(client, environmentId, target.secrets);
+
+      return this.recordRevisionWith(client, environmentId, userId, target.revision);
+    });
+
+    console.log(
+      `[Variables] Restored revision ${revision} of environment ${environmentId} as revision ${restored.revision}`
+    );
+
+    return this.getRevision(environmentId, userId, restored.revision);
+  }
+
+  /**
+   * Record a revision inside a transaction
+   * The environment row is locked so concurrent changes get consecutive revision numbers
+   */
+  private static async recordRevisionWith(
+    client: PoolClient,
+    environmentId: string,
+    userId: string | null,
+    restoredFrom: number | null
+  ): Promise<RevisionSnapshot> {
+    const environmentResult = await client.query<{
+      environment_variables: Record<string, string> | null;
+    }>('SELECT environment_variables FROM environments WHERE id = $1 FOR UPDATE', [environmentId]);
+
+    if (environmentResult.rowCount === 0) {
+      throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.NOT_FOUND, 'Environment not found');
+    }
+
+    const variables = environmentResult.rows[0].environment_variables || {};
+    const groupVariables = await VariableGroupService.getMergedGroupVariables(
+      client,
+      environmentId
+    );
+    const secrets = await SecretService.getEncryptedSecrets(client, environmentId);
+
+    const latestResult = await client.query<RevisionSnapshot>(
+      `
+      SELECT id, revision, variables, group_variables as "groupVariables", secrets
+      FROM environment_variable_revisions
+      WHERE environment_id = $1
+      ORDER BY revision DESC
+      LIMIT 1
+      `,
+      [environmentId]
+    );
+    const latest = latestResult.rows[0];
+
+    // A restore is always recorded so the history shows it happened
+    if (
+      latest &&
+      restoredFrom === null &&
+      this.isSameState(latest, variables, groupVariables, secrets)
+    ) {
+      return latest;
+    }
+
+    const result = await client.query<RevisionSnapshot>(
+      `
+      INSERT INTO environment_variable_revisions
+        (environment_id, revision, variables, group_variables, secrets, created_by, restored_from)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id, revision, variables, group_variables as "groupVariables", secrets
+      `,
+      [
+        environmentId,
+        (latest?.revision || 0) + 1,
+        JSON.stringify(variables),
+        JSON.stringify(groupVariables),
+        JSON.stringify(secrets),
+        userId,
+        restoredFrom,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  private static async findRevision(
+    environmentId: string,
+    revision: number
+  ): Promise<StoredRevision> {
+    const result = await query<StoredRevision>(
+      `
+      SELECT ${this.REVISION_COLUMNS}
+      FROM environment_variable_revisions r
+      LEFT JOIN users u ON r.created_by = u.id
+      WHERE r.environment_id = $1 AND r.revision = $2
+      `,
+      [environmentId, revision]
+    );
+
+    if (result.rowCount === 0) {
+      throw new ApiError(HTTP_STATUS.NOT_FOUND, ERROR_CODES.NOT_FOUND, 'Revision not found');
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Replace stored encrypted secrets with masked values
+   */
+  private static maskRevision(revision: StoredRevision): EnvironmentVariableRevision {
+    return { ...revision, secrets: SecretService.mask(Object.keys(revision.secrets)) };
+  }
+
+  /**
+   * One entry per name with the value a deployment would get (groups < variables <
+   * secrets); secrets are compared by fingerprint and shown masked
+   */
+  private static flatten(
+    revision: StoredRevision | null
+  ): Map<string, { value: string; secret: boolean; compareBy: string }> {
+    const entries = new Map<string, { value: string; secret: boolean; compareBy: string }>();
+    if (!revision) {
+      return entries;
+    }
+
+    for (const [key, value] of Object.entries({
+      ...revision.groupVariables,
+      ...revision.variables,
+    })) {
+      entries.set(key, { value, secret: false, compareBy: `plain:${value}` });
+    }
+
+    for (const [key, secret] of Object.entries(revision.secrets)) {
+      entries.set(key, {
+        value: SecretService.MASKED_VALUE,
+        secret: true,
+        compareBy: `secret:${secret.fingerprint}`,
+      });
+    }
+
+    return entries;
+  }
+
+  private static isSameState(
+    revision: RevisionSnapshot,
+    variables: Record<string, string>,
+    groupVariables: Record<string, string>,
+    secrets: Record<string, EncryptedSecret>
+  ): boolean {
+    const sameKeys = (a: object, b: object): boolean =>
+      Object.keys(a).length === Object.keys(b).length && Object.keys(a).every((key) => key in b);
+
+    const samePlain = (a: Record<string, string>, b: Record<string, string>): boolean =>
+      sameKeys(a, b) && Object.entries(b).every(([key, value]) => a[key] === value);
+
+    return (
+      samePlain(revision.variables, variables) &&
+      samePlain(revision.groupVariables, groupVariables) &&
+      sameKeys(revision.secrets, secrets) &&
+      Object.entries(secrets).every(
+        ([key, secret]) => revision.secrets[key].fingerprint === secret.fingerprint
+      )
+    );
+  }
+}
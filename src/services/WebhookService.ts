@@ -1,8 +1,36 @@
 import crypto from 'crypto';
 import { query } from '../database';
-import { DeploymentService } from './DeploymentService';
+import { WebhookDelivery } from '../types';
+import { WEBHOOK_DELIVERY_STATUS } from '../constants';
+import { branchFromRef, matchesBranchPattern } from '../utils/branch';
+import { DeploymentQueueService } from './DeploymentQueueService';
+import { PreviewService } from './PreviewService';
+import { ProjectService } from './ProjectService';
 import { v4 as uuidv4 } from 'uuid';
 
+export interface WebhookResult {
+  success: boolean;
+  deliveryId?: string;
+  deploymentIds: string[];
+  ignored: boolean;
+  message: string;
+}
+
+/**
+ * The parts of a GitHub pull_request event used for previews
+ */
+interface PullRequestPayload {
+  action?: string;
+  pull_request?: {
+    number?: number;
+    title?: string;
+    html_url?: string;
+    user?: { login?: string };
+    head?: { ref?: string; sha?: string; repo?: { full_name?: string } | null };
+    base?: { ref?: string; repo?: { full_name?: string } };
+  };
+}
+
 /**
  * GitHub Webhook Service
  * Handles webhook payloads and triggers deployments
@@ -11,90 +39,334 @@ export class WebhookService {
   /**
    * Verify GitHub webhook signature
    * GitHub sends X-Hub-Signature-256 header with HMAC-SHA256 hash
+   * Returns false for any mismatch, including a signature of the wrong length
    */
   static verifySignature(payload: string, signature: string, secret: string): boolean {
     const hmac = crypto.createHmac('sha256', secret);
     hmac.update(payload);
-    const hash = 'sha256=' + hmac.digest('hex');
-    return crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(signature));
+    const expected = Buffer.from('sha256=' + hmac.digest('hex'));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
   }
 
   /**
    * Handle GitHub push webhook
-   * Creates a new deployment when code is pushed
+   * Deploys the pushed commit to every environment whose branch patterns match the branch.
+   * Pushes that don't deploy anything (tags, deleted branches, unmapped branches) are
+   * ignored, and every delivery is recorded with its outcome
    */
-  static async handlePushWebhook(
-    payload: any,
-    projectId: string
-  ): Promise<{ success: boolean; deploymentId?: string; message: string }> {
-    try {
-      // Get project details including userId and repository_url
-      const projectResult = await query(
-        'SELECT id, user_id, name, slug, repository_url FROM projects WHERE id = $1 AND deleted_at IS NULL',
-        [projectId]
-      );
+  static async handlePushWebhook(payload: any, projectId: string): Promise<WebhookResult> {
+    const ref: string = payload.ref || ''; // e.g., "refs/heads/main"
+    const commit: string | null = payload.after || null;
 
-      if (projectResult.rows.length === 0) {
-        return { success: false, message: 'Project not found' };
+    try {
+      const project = await this.findProject(projectId);
+      if (!project) {
+        return { success: false, deploymentIds: [], ignored: false, message: 'Project not found' };
       }
 
-      const project = projectResult.rows[0];
-      const ref = payload.ref || ''; // e.g., "refs/heads/main"
-      const branch = ref.split('/').pop() || 'main';
-      const userId = project.user_id;
+      const branch = branchFromRef(ref);
 
-      // Get the production/main environment for this project
-      // If multiple environments exist, prefer 'production' or the first one
-      let environmentId: string | null = null;
+      if (!branch) {
+        return this.ignoreDelivery(
+          projectId,
+          'push',
+          ref,
+          commit,
+          `${ref || 'Push'} is not a branch`
+        );
+      }
 
-      const envResult = await query(
-        `SELECT id FROM environments 
+      if (payload.deleted || (commit && /^0+$/.test(commit))) {
+        return this.ignoreDelivery(projectId, 'push', ref, commit, `Branch ${branch} was deleted`);
+      }
+
+      const envResult = await query<{ id: string; name: string; branch_patterns: string[] }>(
+        `SELECT id, name, branch_patterns FROM environments
          WHERE project_id = $1 AND deleted_at IS NULL
-         ORDER BY name ASC LIMIT 1`,
+         ORDER BY name ASC`,
         [projectId]
       );
 
-      if (envResult.rows.length > 0) {
-        environmentId = envResult.rows[0].id;
-      }
+      const environments = envResult.rows.filter((environment) =>
+        (environment.branch_patterns || []).some((pattern) => matchesBranchPattern(pattern, branch))
+      );
 
-      // If no environment exists, return error
-      if (!environmentId) {
-        return { success: false, message: 'No environment configured for this project' };
+      if (environments.length === 0) {
+        return this.ignoreDelivery(
+          projectId,
+          'push',
+          ref,
+          commit,
+          `No environment tracks branch ${branch}`
+        );
       }
 
-      // Create a new deployment using the DeploymentService
-      const deploymentId = uuidv4();
-      const commit = payload.after || 'unknown';
       const committer = payload.pusher?.name || payload.sender?.login || 'Unknown';
       const commitMessage = `Webhook deployment from ${committer} on ${branch}`;
+      const deploymentIds: string[] = [];
 
-      // Insert deployment record
-      await query(
-        `INSERT INTO deployments 
-         (id, project_id, environment_id, status, commit_sha, commit_message, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
-        [deploymentId, projectId, environmentId, 'pending', commit, commitMessage]
-      );
+      for (const environment of environments) {
+        const deploymentId = uuidv4();
+
+        // Insert deployment record; the build checks out the pushed commit and replaces the
+        // message with the real commit message and author
+        await query(
+          `INSERT INTO deployments 
+           (id, project_id, environment_id, status, ref, commit_sha, commit_message, created_at,
+            updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)`,
+          [deploymentId, projectId, environment.id, 'pending', branch, commit, commitMessage]
+        );
+
+        console.log(
+          `[Webhook] Created deployment ${deploymentId} for project ${project.slug} (${branch} -> ${environment.name})`
+        );
 
-      console.log(
-        `[Webhook] Created deployment ${deploymentId} for project ${project.slug} (${branch})`
+        // Queue the deployment for the deployment worker
+        await DeploymentQueueService.enqueue(deploymentId);
+        deploymentIds.push(deploymentId);
+      }
+
+      const message = `Deployment triggered for ${branch} branch to ${environments
+        .map((environment) => environment.name)
+        .join(', ')}`;
+      const deliveryId = await this.recordDelivery(
+        projectId,
+        'push',
+        ref,
+        commit,
+        WEBHOOK_DELIVERY_STATUS.DEPLOYED,
+        message,
+        deploymentIds
       );
 
-      // Trigger the deployment asynchronously
-      setImmediate(() => {
-        DeploymentService.executeWebhookDeployment(deploymentId).catch((error) => {
-          console.error(`[Webhook] Error executing deployment ${deploymentId}:`, error);
-        });
+      return { success: true, deliveryId, deploymentIds, ignored: false, message };
+    } catch (error) {
+      console.error('[Webhook] Error handling push webhook:', error);
+      const message = `Webhook processing failed: ${error}`;
+      await this.recordDelivery(
+        projectId,
+        'push',
+        ref,
+        commit,
+        WEBHOOK_DELIVERY_STATUS.FAILED,
+        message,
+        []
+      ).catch(() => undefined);
+      return { success: false, deploymentIds: [], ignored: false, message };
+    }
+  }
+
+  /**
+   * Handle GitHub pull_request webhook
+   * Opening, reopening or pushing to a pull request deploys its preview environment;
+   * closing or merging it tears the preview down. Pull requests from forks are ignored so
+   * untrusted code is never built
+   */
+  static async handlePullRequestWebhook(
+    payload: PullRequestPayload,
+    projectId: string
+  ): Promise<WebhookResult> {
+    const pullRequest: NonNullable<PullRequestPayload['pull_request']> = payload.pull_request || {};
+    const action: string = payload.action || '';
+    const headRef: string = pullRequest.head?.ref || '';
+    const ref = headRef ? `refs/heads/${headRef}` : '';
+    const commit: string | null = pullRequest.head?.sha || null;
+    const number: number | undefined = pullRequest.number;
+
+    try {
+      const project = await this.findProject(projectId);
+      if (!project) {
+        return { success: false, deploymentIds: [], ignored: false, message: 'Project not found' };
+      }
+
+      if (!number || !headRef || !commit) {
+        return this.ignoreDelivery(
+          projectId,
+          'pull_request',
+          ref,
+          commit,
+          'Payload has no pull request head'
+        );
+      }
+
+      if (action === 'closed') {
+        const removed = await PreviewService.teardownPreview(projectId, number);
+        if (!removed) {
+          return this.ignoreDelivery(
+            projectId,
+            'pull_request',
+            ref,
+            commit,
+            `Pull request #${number} has no open preview`
+          );
+        }
+
+        const message = `Preview for pull request #${number} removed`;
+        const deliveryId = await this.recordDelivery(
+          projectId,
+          'pull_request',
+          ref,
+          commit,
+          WEBHOOK_DELIVERY_STATUS.REMOVED,
+          message,
+          []
+        );
+        return { success: true, deliveryId, deploymentIds: [], ignored: false, message };
+      }
+
+      if (!['opened', 'reopened', 'synchronize'].includes(action)) {
+        return this.ignoreDelivery(
+          projectId,
+          'pull_request',
+          ref,
+          commit,
+          `Pull request action ${action || 'unknown'} does not change previews`
+        );
+      }
+
+      const headRepository = pullRequest.head?.repo?.full_name;
+      if (!headRepository || headRepository !== pullRequest.base?.repo?.full_name) {
+        return this.ignoreDelivery(
+          projectId,
+          'pull_request',
+          ref,
+          commit,
+          `Pull request #${number} comes from a fork; previews only build branches of this repository`
+        );
+      }
+
+      const { deploymentId } = await PreviewService.deployPreview(project, {
+        number,
+        title: pullRequest.title,
+        url: pullRequest.html_url,
+        headRef,
+        headSha: commit,
+        baseRef: pullRequest.base?.ref || '',
+        author: pullRequest.user?.login,
       });
 
-      return { success: true, deploymentId, message: `Deployment triggered for ${branch} branch` };
+      const message = `Preview deployment triggered for pull request #${number}`;
+      const deliveryId = await this.recordDelivery(
+        projectId,
+        'pull_request',
+        ref,
+        commit,
+        WEBHOOK_DELIVERY_STATUS.DEPLOYED,
+        message,
+        [deploymentId]
+      );
+
+      return { success: true, deliveryId, deploymentIds: [deploymentId], ignored: false, message };
     } catch (error) {
-      console.error('[Webhook] Error handling push webhook:', error);
-      return { success: false, message: `Webhook processing failed: ${error}` };
+      console.error('[Webhook] Error handling pull request webhook:', error);
+      const message = `Webhook processing failed: ${error}`;
+      await this.recordDelivery(
+        projectId,
+        'pull_request',
+        ref,
+        commit,
+        WEBHOOK_DELIVERY_STATUS.FAILED,
+        message,
+        []
+      ).catch(() => undefined);
+      return { success: false, deploymentIds: [], ignored: false, message };
     }
   }
 
+  /**
+   * List recorded webhook deliveries for a project, newest first
+   */
+  static async listDeliveries(
+    projectId: string,
+    userId: string,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    await ProjectService.getProject(projectId, userId);
+
+    const deliveriesResult = await query<WebhookDelivery>(
+      `
+      SELECT id,
+             project_id as "projectId",
+             event,
+             ref,
+             commit_sha as "commitSha",
+             status,
+             reason,
+             deployment_ids as "deploymentIds",
+             created_at as "createdAt"
+      FROM webhook_deliveries
+      WHERE project_id = $1
+      ORDER BY created_at DESC
+      LIMIT $2 OFFSET $3
+      `,
+      [projectId, limit, offset]
+    );
+
+    const countResult = await query<{ count: number }>(
+      'SELECT COUNT(*) as count FROM webhook_deliveries WHERE project_id = $1',
+      [projectId]
+    );
+
+    return {
+      deliveries: deliveriesResult.rows,
+      total: parseInt(String(countResult.rows[0]?.count || '0'), 10),
+    };
+  }
+
+  private static async findProject(
+    projectId: string
+  ): Promise<{ id: string; user_id: string; slug: string } | undefined> {
+    const result = await query(
+      'SELECT id, user_id, name, slug, repository_url FROM projects WHERE id = $1 AND deleted_at IS NULL',
+      [projectId]
+    );
+    return result.rows[0];
+  }
+
+  private static async ignoreDelivery(
+    projectId: string,
+    event: string,
+    ref: string,
+    commit: string | null,
+    reason: string
+  ): Promise<WebhookResult> {
+    console.log(`[Webhook] Ignored ${event} for project ${projectId}: ${reason}`);
+    const deliveryId = await this.recordDelivery(
+      projectId,
+      event,
+      ref,
+      commit,
+      WEBHOOK_DELIVERY_STATUS.IGNORED,
+      reason,
+      []
+    );
+    return { success: true, deliveryId, deploymentIds: [], ignored: true, message: reason };
+  }
+
+  private static async recordDelivery(
+    projectId: string,
+    event: string,
+    ref: string,
+    commit: string | null,
+    status: string,
+    reason: string,
+    deploymentIds: string[]
+  ): Promise<string> {
+    const result = await query<{ id: string }>(
+      `
+      INSERT INTO webhook_deliveries
+        (project_id, event, ref, commit_sha, status, reason, deployment_ids)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING id
+      `,
+      [projectId, event, ref || null, commit, status, reason, deploymentIds]
+    );
+    return result.rows[0].id;
+  }
+
   /**
    * Generate a webhook secret for a project
    */
@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import config from '../config';
+import { CommitInfo, GitCredentials, GitService } from './GitService';
+
+/**
+ * Workspace Service
+ * Keeps one bare git repository per project on the build host (BUILD_WORKSPACE_DIR). Each
+ * build fetches the commit it needs into it, downloading only what the repository doesn't
+ * already have, and gets its own worktree to build in, so a project is cloned once rather
+ * than once per deployment
+ * Git operations on a project's repository are serialised with a lock file, which also
+ * covers builds running in other worker processes
+ */
+export class WorkspaceService {
+  private static readonly LOCK_RETRY_MS = 500;
+  // Cache generation the repository was fetched under, kept next to the git metadata
+  private static readonly GENERATION_FILE = 'gilgal-generation';
+
+  static repositoryPath(projectId: string): string {
+    return path.join(config.builds.workspaceDir, `${projectId}.git`);
+  }
+
+  static exists(projectId: string): boolean {
+    return fs.existsSync(path.join(this.repositoryPath(projectId), 'HEAD'));
+  }
+
+  /**
+   * Fetch a ref into the project's repository and check it out as a worktree in targetDir
+   * A repository left from an earlier cache generation is deleted first. cacheHit is false
+   * when the repository had to be created (a full clone); sizeBytes is its size afterwards
+   */
+  static async checkout(
+    projectId: string,
+    repositoryUrl: string,
+    targetDir: string,
+    ref?: string,
+    credentials?: GitCredentials,
+    generation: number = 0
+  ): Promise<{ commit: CommitInfo; cacheHit: boolean; sizeBytes: number }> {
+    const repoDir = this.repositoryPath(projectId);
+
+    return this.withLock(projectId, async () => {
+      if (this.exists(projectId) && this.readGeneration(projectId) !== generation) {
+        fs.rmSync(repoDir, { recursive: true, force: true });
+        console.log(`[Workspace] Removed workspace of project ${projectId} (cache was cleared)`);
+      }
+
+      const cacheHit = this.exists(projectId);
+      const commit = await GitService.fetch(repositoryUrl, repoDir, ref, credentials);
+      fs.writeFileSync(path.join(repoDir, this.GENERATION_FILE), `${generation}\n`);
+      await GitService.addWorktree(repoDir, targetDir, commit.sha);
+      return { commit, cacheHit, sizeBytes: await this.getSize(projectId) };
+    });
+  }
+
+  /**
+   * Remove a worktree created by checkout()
+   */
+  static async release(projectId: string, targetDir: string): Promise<void> {
+    if (!this.exists(projectId)) {
+      fs.rmSync(targetDir, { recursive: true, force: true });
+      return;
+    }
+    await this.withLock(projectId, () =>
+      GitService.removeWorktree(this.repositoryPath(projectId), targetDir)
+    );
+  }
+
+  /**
+   * Delete the project's repository; the next build clones it again
+   */
+  static async clear(projectId: string): Promise<void> {
+    await this.withLock(projectId, async () => {
+      fs.rmSync(this.repositoryPath(projectId), { recursive: true, force: true });
+    });
+    console.log(`[Workspace] Removed workspace of project ${projectId}`);
+  }
+
+  /**
+   * Disk space used by the project's repository, in bytes
+   */
+  static async getSize(projectId: string): Promise<number> {
+    const measure = async (target: string): Promise<number> => {
+      try {
+        const stats = await fs.promises.lstat(target);
+        if (!stats.isDirectory()) {
+          return stats.size;
+        }
+        let total = 0;
+        for (const entry of await fs.promises.readdir(target)) {
+          total += await measure(path.join(target, entry));
+        }
+        return total;
+      } catch (error) {
+        // Removed while measuring, e.g. by git gc or a cache clear
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return 0;
+        }
+        throw error;
+      }
+    };
+
+    return this.exists(projectId) ? measure(this.repositoryPath(projectId)) : 0;
+  }
+
+  /**
+   * Cache generation the project's repository belongs to; repositories from before
+   * generations were recorded count as generation 0
+   */
+  private static readGeneration(projectId: string): number {
+    try {
+      const recorded = fs.readFileSync(
+        path.join(this.repositoryPath(projectId), this.GENERATION_FILE),
+        'utf-8'
+      );
+      return parseInt(recorded, 10) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Run a task while holding the project's workspace lock
+   * The holder touches the lock file while it runs, so a lock that hasn't been touched for
+   * twice the git timeout was left behind by a worker that died and is taken over
+   */
+  private static async withLock<T>(projectId: string, task: () => Promise<T>): Promise<T> {
+    fs.mkdirSync(config.builds.workspaceDir, { recursive: true });
+    const lockPath = path.join(config.builds.workspaceDir, `${projectId}.lock`);
+    const staleMs = config.builds.gitTimeoutSeconds * 2 * 1000;
+
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(lockPath, 'wx'));
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      let lockAge = 0;
+      try {
+        lockAge = Date.now() - fs.statSync(lockPath).mtimeMs;
+      } catch {
+        // Released in the meantime
+        continue;
+      }
+
+      if (lockAge > staleMs) {
+        console.warn(`[Workspace] Removing stale workspace lock of project ${projectId}`);
+        fs.rmSync(lockPath, { force: true });
+      } else {
+        await new Promise((resolve) => setTimeout(resolve, this.LOCK_RETRY_MS));
+      }
+    }
+
+    const refresh = setInterval(() => {
+      try {
+        const now = new Date();
+        fs.utimesSync(lockPath, now, now);
+      } catch (error) {
+        console.warn(
+          `[Workspace] Failed to refresh workspace lock of project ${projectId}:`,
+          error
+        );
+      }
+    }, staleMs / 4);
+
+    try {
+      return await task();
+    } finally {
+      clearInterval(refresh);
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+}
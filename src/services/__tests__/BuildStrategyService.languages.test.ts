@@ -0,0 +1,126 @@
+import { BuildStrategyService } from '../BuildStrategyService';
+import { createSourceTree, removeSourceTrees } from './sourceTree';
+
+/**
+ * The CMD line of a plan's Dockerfile, parsed back into its arguments
+ */
+function startCommand(dir: string): string[] {
+  const dockerfile = BuildStrategyService.select(dir).files.Dockerfile;
+  const line = dockerfile.split('\n').find((text) => text.startsWith('CMD '));
+  return JSON.parse((line || 'CMD []').slice(4));
+}
+
+describe('BuildStrategyService language strategies', () => {
+  afterEach(() => {
+    removeSourceTrees();
+  });
+
+  describe('python', () => {
+    it('serves Django through gunicorn with the project wsgi module', () => {
+      const dir = createSourceTree({
+        'requirements.txt': 'Django==5.0\npsycopg2',
+        'manage.py': '',
+        'mysite/wsgi.py': '',
+      });
+
+      expect(BuildStrategyService.select(dir).framework).toBe('django');
+      expect(startCommand(dir)).toEqual([
+        'gunicorn',
+        '--bind',
+        '0.0.0.0:8000',
+        'mysite.wsgi:application',
+      ]);
+    });
+
+    it('serves FastAPI through uvicorn from a nested entry module', () => {
+      const dir = createSourceTree({
+        'pyproject.toml': '[project]\ndependencies = ["fastapi>=0.110"]',
+        'app/main.py': '',
+      });
+
+      expect(BuildStrategyService.select(dir).framework).toBe('fastapi');
+      expect(startCommand(dir)).toEqual([
+        'uvicorn',
+        'app.main:app',
+        '--host',
+        '0.0.0.0',
+        '--port',
+        '8000',
+      ]);
+    });
+
+    it('serves Flask through gunicorn and installs it when missing', () => {
+      const dir = createSourceTree({ 'requirements.txt': 'flask\n', 'wsgi.py': '' });
+      const plan = BuildStrategyService.select(dir);
+
+      expect(plan.framework).toBe('flask');
+      expect(startCommand(dir)).toEqual(['gunicorn', '--bind', '0.0.0.0:8000', 'wsgi:app']);
+      expect(plan.files.Dockerfile).toContain('pip install --no-cache-dir gunicorn');
+    });
+
+    it('does not mistake a package that only contains a framework name for it', () => {
+      const dir = createSourceTree({ 'requirements.txt': 'flask-cors-helper-x\n', 'main.py': '' });
+
+      expect(BuildStrategyService.select(dir).framework).toBe('python');
+      expect(startCommand(dir)).toEqual(['python', '-m', 'main']);
+    });
+
+    it('uses the version from .python-version', () => {
+      const dir = createSourceTree({ 'requirements.txt': '', '.python-version': '3.11.4\n' });
+
+      expect(BuildStrategyService.select(dir).files.Dockerfile).toMatch(/^FROM python:3\.11-slim/);
+    });
+  });
+
+  describe('go', () => {
+    it('builds the first command under cmd/ when the root has no main package', () => {
+      const dir = createSourceTree({
+        'go.mod': 'module example.com/app\n\ngo 1.21\n',
+        'lib.go': 'package lib',
+        'cmd/server/main.go': 'package main',
+      });
+      const dockerfile = BuildStrategyService.select(dir).files.Dockerfile;
+
+      expect(dockerfile).toMatch(/^FROM golang:1\.21-alpine AS builder/);
+      expect(dockerfile).toContain('-o /out/app ./cmd/server');
+    });
+
+    it('builds the root package when it is main', () => {
+      const dir = createSourceTree({ 'go.mod': 'module x\n', 'main.go': 'package main\n' });
+
+      expect(BuildStrategyService.select(dir).files.Dockerfile).toContain('-o /out/app .\n');
+    });
+  });
+
+  describe('ruby', () => {
+    it('runs Rails with its production settings', () => {
+      const dir = createSourceTree({ Gemfile: "gem 'rails', '~> 7.1'", 'app/assets/x.css': '' });
+      const plan = BuildStrategyService.select(dir);
+
+      expect(plan.framework).toBe('rails');
+      expect(plan.files.Dockerfile).toContain('rails assets:precompile');
+      expect(startCommand(dir).slice(0, 4)).toEqual(['bundle', 'exec', 'rails', 'server']);
+    });
+
+    it('runs Rack apps with rackup on 9292', () => {
+      const dir = createSourceTree({ Gemfile: "gem 'sinatra'", 'config.ru': '' });
+
+      expect(BuildStrategyService.select(dir).port).toBe(9292);
+      expect(startCommand(dir)).toContain('rackup');
+    });
+  });
+
+  describe('php', () => {
+    it('serves Laravel from public/ on its PHP version', () => {
+      const dir = createSourceTree({
+        'composer.json': { require: { php: '^8.2', 'laravel/framework': '^11.0' } },
+      });
+      const plan = BuildStrategyService.select(dir);
+
+      expect(plan.framework).toBe('laravel');
+      expect(plan.port).toBe(80);
+      expect(plan.files.Dockerfile).toContain('FROM php:8.2-apache');
+      expect(plan.files.Dockerfile).toContain('APACHE_DOCUMENT_ROOT=/var/www/html/public');
+    });
+  });
+});
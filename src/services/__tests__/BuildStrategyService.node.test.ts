@@ -0,0 +1,170 @@
+import { BuildStrategyService } from '../BuildStrategyService';
+import { createSourceTree, removeSourceTrees } from './sourceTree';
+
+describe('BuildStrategyService Node toolchain', () => {
+  afterEach(() => {
+    removeSourceTrees();
+  });
+
+  describe('package manager', () => {
+    it.each([
+      ['package-lock.json', 'npm, Node 22', 'RUN npm ci --omit=dev'],
+      ['yarn.lock', 'yarn, Node 22', 'RUN yarn install --frozen-lockfile --production'],
+      ['pnpm-lock.yaml', 'pnpm, Node 22', 'RUN pnpm install --frozen-lockfile --prod'],
+      ['bun.lockb', 'bun', 'RUN bun install --frozen-lockfile --production'],
+    ])('installs with the tool of %s', (lockfile, details, install) => {
+      const dir = createSourceTree({
+        'package.json': { scripts: { start: 'node .' } },
+        [lockfile]: '',
+      });
+      const plan = BuildStrategyService.select(dir);
+
+      expect(plan.details).toBe(details);
+      expect(plan.files.Dockerfile).toContain(install);
+    });
+
+    it('prefers the packageManager field over lockfiles and pins its version', () => {
+      const dir = createSourceTree({
+        'package.json': { packageManager: 'pnpm@9.1.0+sha512.abc' },
+        'package-lock.json': '',
+      });
+
+      expect(BuildStrategyService.select(dir).files.Dockerfile).toContain(
+        'RUN npm install -g pnpm@9.1.0'
+      );
+    });
+
+    it('runs Yarn 2+ through corepack', () => {
+      const dir = createSourceTree({
+        'package.json': {},
+        'yarn.lock': '',
+        '.yarnrc.yml': 'nodeLinker: node-modules',
+      });
+      const dockerfile = BuildStrategyService.select(dir).files.Dockerfile;
+
+      expect(dockerfile).toContain('RUN corepack enable');
+      expect(dockerfile).toContain('COPY .yarnrc.yml ./.yarnrc.yml');
+      expect(dockerfile).toContain('yarn install --immutable');
+    });
+
+    it('falls back to npm install without a lockfile', () => {
+      const dir = createSourceTree({ 'package.json': { scripts: { build: 'tsc' } } });
+      const dockerfile = BuildStrategyService.select(dir).files.Dockerfile;
+
+      // A build script needs dev dependencies
+      expect(dockerfile).toContain('RUN npm install\n');
+      expect(dockerfile).toContain('RUN npm run build');
+    });
+  });
+
+  describe('Node version', () => {
+    it.each([
+      [{ '.nvmrc': 'v18.19.0\n' }, '18'],
+      [{ '.node-version': '20' }, '20'],
+      [{ 'package.json': { engines: { node: '^18.0.0 || ^20.0.0' } } }, '20'],
+      [{ 'package.json': { engines: { node: '>=16' } } }, '22'],
+      [{ 'package.json': { engines: { node: '>=24' } } }, '24'],
+      [{ 'package.json': {} }, '22'],
+    ])('reads %j as Node %s', (files, version) => {
+      const dir = createSourceTree({ 'package.json': {}, ...files });
+
+      expect(BuildStrategyService.select(dir).files.Dockerfile).toMatch(
+        new RegExp(`^FROM node:${version}-alpine`)
+      );
+    });
+
+    it('lets .nvmrc win over engines', () => {
+      const dir = createSourceTree({
+        'package.json': { engines: { node: '>=22' } },
+        '.nvmrc': '18',
+      });
+
+      expect(BuildStrategyService.select(dir).details).toBe('npm, Node 18');
+    });
+  });
+
+  describe('static sites', () => {
+    const serves = (dir: string): string =>
+      BuildStrategyService.select(dir)
+        .files.Dockerfile.split('\n')
+        .find((line) => line.includes('/usr/share/nginx/html')) || '';
+
+    it('serves the Angular application builder output from browser/', () => {
+      const dir = createSourceTree({
+        'package.json': { dependencies: { '@angular/core': '^17' } },
+        'angular.json': {
+          projects: {
+            shop: {
+              projectType: 'application',
+              architect: {
+                build: {
+                  builder: '@angular-devkit/build-angular:application',
+                  options: { outputPath: 'dist/shop' },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      expect(BuildStrategyService.select(dir).framework).toBe('angular');
+      expect(serves(dir)).toBe('COPY --from=builder /app/dist/shop/browser /usr/share/nginx/html');
+    });
+
+    it('serves the outDir from the Vite config', () => {
+      const dir = createSourceTree({
+        'package.json': { dependencies: { react: '^18' }, devDependencies: { vite: '^5' } },
+        'vite.config.ts': "export default { build: { outDir: 'public/app' } }",
+      });
+
+      expect(BuildStrategyService.select(dir).framework).toBe('react');
+      expect(serves(dir)).toBe('COPY --from=builder /app/public/app /usr/share/nginx/html');
+    });
+
+    it('ignores an output directory that leaves the repository', () => {
+      const dir = createSourceTree({
+        'package.json': { devDependencies: { vite: '^5' } },
+        'vite.config.js': "export default { build: { outDir: '../../etc' } }",
+      });
+
+      expect(serves(dir)).toBe('COPY --from=builder /app/dist /usr/share/nginx/html');
+    });
+
+    it('serves the Vue CLI outputDir', () => {
+      const dir = createSourceTree({
+        'package.json': { devDependencies: { '@vue/cli-service': '^5' } },
+        'vue.config.js': "module.exports = { outputDir: 'www' }",
+      });
+
+      expect(BuildStrategyService.select(dir).framework).toBe('vue');
+      expect(serves(dir)).toBe('COPY --from=builder /app/www /usr/share/nginx/html');
+    });
+
+    it('serves SvelteKit with adapter-static from build/', () => {
+      const dir = createSourceTree({
+        'package.json': {
+          devDependencies: { '@sveltejs/kit': '^2', '@sveltejs/adapter-static': '^3' },
+        },
+      });
+
+      expect(BuildStrategyService.select(dir).framework).toBe('svelte');
+      expect(serves(dir)).toBe('COPY --from=builder /app/build /usr/share/nginx/html');
+    });
+
+    it('runs SvelteKit with a server adapter as a Node app', () => {
+      const dir = createSourceTree({
+        'package.json': { devDependencies: { '@sveltejs/kit': '^2' } },
+      });
+
+      expect(BuildStrategyService.select(dir).strategy).toBe('node');
+    });
+
+    it('lets the manifest outputDir win', () => {
+      const dir = createSourceTree({ 'package.json': { dependencies: { 'react-scripts': '5' } } });
+
+      expect(BuildStrategyService.select(dir, { outputDir: 'out' }).details).toBe(
+        'npm, Node 22, serving out/'
+      );
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BuildStrategy, BuildStrategyService } from '../BuildStrategyService';
+import { createSourceTree, removeSourceTrees } from './sourceTree';
+
+describe('BuildStrategyService', () => {
+  afterEach(() => {
+    removeSourceTrees();
+  });
+
+  describe('select', () => {
+    it("builds a repository's own Dockerfile as-is, on the port it exposes", () => {
+      const dir = createSourceTree({
+        Dockerfile: 'FROM node:20\nEXPOSE 8080 9090\nCMD ["node", "."]',
+        'package.json': { dependencies: { express: '^4' } },
+      });
+
+      expect(BuildStrategyService.select(dir)).toEqual({
+        strategy: 'dockerfile',
+        framework: 'docker',
+        port: 8080,
+        files: {},
+      });
+    });
+
+    it('prefers the manifest port over EXPOSE', () => {
+      const dir = createSourceTree({ Dockerfile: 'FROM nginx\nEXPOSE 80' });
+
+      expect(BuildStrategyService.select(dir, { port: 8000 }).port).toBe(8000);
+    });
+
+    it('falls back to a Node build without a package.json', () => {
+      const plan = BuildStrategyService.select(createSourceTree({ 'index.js': '' }));
+
+      expect(plan.strategy).toBe('node');
+      expect(plan.port).toBe(3000);
+    });
+
+    it('uses the manifest start command through a shell', () => {
+      const dir = createSourceTree({ 'package.json': { scripts: { start: 'node .' } } });
+
+      const plan = BuildStrategyService.select(dir, { start: 'node server.js --prod' });
+
+      expect(plan.files.Dockerfile).toContain('CMD ["/bin/sh","-c","node server.js --prod"]');
+    });
+  });
+
+  describe('register', () => {
+    const custom: BuildStrategy = {
+      name: 'custom-test',
+      priority: 1000,
+      description: 'Test strategy',
+      detect: (sourceDir) => fs.existsSync(path.join(sourceDir, 'custom.txt')),
+      plan: () => ({ strategy: 'custom-test', framework: 'custom', port: 1234, files: {} }),
+    };
+
+    it('lets a registered strategy take precedence when it matches', () => {
+      BuildStrategyService.register(custom);
+
+      expect(BuildStrategyService.select(createSourceTree({ 'custom.txt': '' })).strategy).toBe(
+        'custom-test'
+      );
+      expect(BuildStrategyService.select(createSourceTree({ Dockerfile: 'FROM x' })).strategy).toBe(
+        'dockerfile'
+      );
+    });
+
+    it('replaces a strategy with the same name', () => {
+      BuildStrategyService.register({ ...custom, description: 'Replaced' });
+
+      const matching = BuildStrategyService.list().filter((s) => s.name === 'custom-test');
+      expect(matching).toHaveLength(1);
+      expect(matching[0].description).toBe('Replaced');
+    });
+  });
+
+  describe('writeFiles', () => {
+    it('writes generated files without overwriting the repository', () => {
+      const dir = createSourceTree({ '.dockerignore': 'keep-me' });
+      const plan = BuildStrategyService.select(dir);
+
+      const written = BuildStrategyService.writeFiles(plan, dir);
+
+      expect(written).toEqual(['Dockerfile']);
+      expect(fs.readFileSync(path.join(dir, '.dockerignore'), 'utf-8')).toBe('keep-me');
+      expect(fs.readFileSync(path.join(dir, 'Dockerfile'), 'utf-8')).toBe(plan.files.Dockerfile);
+    });
+  });
+});
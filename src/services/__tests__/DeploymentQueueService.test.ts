@@ -0,0 +1,122 @@
+import { query } from '../../database';
+import { DEPLOYMENT_JOB_STATUS } from '../../constants';
+import { DeploymentQueueService } from '../DeploymentQueueService';
+
+jest.mock('../../database', () => ({ query: jest.fn() }));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+function returns(rows: object[], rowCount: number = rows.length): void {
+  mockQuery.mockResolvedValueOnce({ rows, rowCount });
+}
+
+describe('DeploymentQueueService', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('enqueue', () => {
+    it('returns the new job', async () => {
+      const job = { id: 'job-1', deploymentId: 'deployment-1', status: 'queued' };
+      returns([job]);
+
+      await expect(DeploymentQueueService.enqueue('deployment-1')).resolves.toBe(job);
+    });
+
+    it('returns null when the deployment already has an active job', async () => {
+      returns([]);
+
+      await expect(DeploymentQueueService.enqueue('deployment-1')).resolves.toBeNull();
+    });
+  });
+
+  describe('claimNext', () => {
+    it('returns the claimed job, or null when nothing is runnable', async () => {
+      const job = { id: 'job-1', deploymentId: 'deployment-1', attempts: 1 };
+      returns([job]);
+      await expect(DeploymentQueueService.claimNext('worker-a')).resolves.toBe(job);
+
+      returns([]);
+      await expect(DeploymentQueueService.claimNext('worker-a')).resolves.toBeNull();
+    });
+  });
+
+  describe('heartbeat', () => {
+    it('reports whether the worker still holds the lease', async () => {
+      returns([], 1);
+      await expect(DeploymentQueueService.heartbeat('job-1', 'worker-a')).resolves.toBe(true);
+
+      returns([], 0);
+      await expect(DeploymentQueueService.heartbeat('job-1', 'worker-a')).resolves.toBe(false);
+    });
+  });
+
+  describe('release', () => {
+    it('requeues the job while attempts remain', async () => {
+      returns([{ status: DEPLOYMENT_JOB_STATUS.QUEUED }]);
+
+      await expect(DeploymentQueueService.release('job-1', 'worker-a')).resolves.toBe(true);
+    });
+
+    it('fails the job instead once its attempts are used up', async () => {
+      returns([{ status: DEPLOYMENT_JOB_STATUS.FAILED }]);
+
+      await expect(DeploymentQueueService.release('job-1', 'worker-a')).resolves.toBe(false);
+    });
+
+    it('leaves a job whose lease was lost alone', async () => {
+      returns([]);
+
+      await expect(DeploymentQueueService.release('job-1', 'worker-a')).resolves.toBe(false);
+    });
+  });
+
+  describe('fail', () => {
+    it('retries while attempts remain', async () => {
+      returns([{ status: DEPLOYMENT_JOB_STATUS.QUEUED, attempts: 1, maxAttempts: 3 }]);
+
+      await expect(DeploymentQueueService.fail('job-1', 'worker-a', 'boom')).resolves.toEqual({
+        willRetry: true,
+        attempts: 1,
+        maxAttempts: 3,
+      });
+    });
+
+    it('gives up after the last attempt', async () => {
+      returns([{ status: DEPLOYMENT_JOB_STATUS.FAILED, attempts: 3, maxAttempts: 3 }]);
+
+      await expect(DeploymentQueueService.fail('job-1', 'worker-a', 'boom')).resolves.toEqual({
+        willRetry: false,
+        attempts: 3,
+        maxAttempts: 3,
+      });
+    });
+
+    it('leaves the outcome to the new owner when the lease was lost', async () => {
+      returns([]);
+
+      await expect(DeploymentQueueService.fail('job-1', 'worker-a', 'boom')).resolves.toEqual({
+        willRetry: false,
+        attempts: 0,
+        maxAttempts: 0,
+      });
+    });
+  });
+
+  describe('recoverExpiredLeases', () => {
+    it('returns the deployments failed after their final lease expired', async () => {
+      returns([{ id: 'deployment-1' }, { id: 'deployment-2' }]);
+
+      await expect(DeploymentQueueService.recoverExpiredLeases()).resolves.toEqual([
+        'deployment-1',
+        'deployment-2',
+      ]);
+    });
+  });
+});
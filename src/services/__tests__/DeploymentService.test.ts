@@ -0,0 +1,80 @@
+import { query } from '../../database';
+import { DEPLOYMENT_STATUS } from '../../constants';
+import { DeploymentService } from '../DeploymentService';
+import { DockerService } from '../DockerService';
+
+jest.mock('uuid', () => ({ v4: () => 'log-1' }));
+jest.mock('../../database', () => ({ query: jest.fn(), transaction: jest.fn() }));
+jest.mock('../DockerService', () => ({
+  DockerService: { stopContainer: jest.fn(), stopProcessContainers: jest.fn() },
+}));
+jest.mock('../DeploymentQueueService', () => ({
+  DeploymentQueueService: { cancelForDeployment: jest.fn() },
+}));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const docker = jest.mocked(DockerService);
+
+describe('DeploymentService.cancelDeployment', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    docker.stopContainer.mockResolvedValue();
+    docker.stopProcessContainers.mockResolvedValue([]);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Rows come back as the database returns them: snake_case
+  const deploymentRow = (containerId: string | null) => {
+    mockQuery.mockImplementation(async (text: string) => {
+      if (text.includes('JOIN projects')) {
+        return {
+          rows: [
+            { id: 'deployment-1', status: DEPLOYMENT_STATUS.BUILDING, container_id: containerId },
+          ],
+          rowCount: 1,
+        };
+      }
+      if (text.includes('SELECT container_id')) {
+        return { rows: [{ container_id: containerId }], rowCount: 1 };
+      }
+      return { rows: [], rowCount: 1 };
+    });
+  };
+
+  it('stops the container the build started and its process containers', async () => {
+    deploymentRow('container-1');
+
+    await DeploymentService.cancelDeployment('deployment-1', 'user-1');
+
+    expect(docker.stopContainer).toHaveBeenCalledWith('container-1');
+    expect(docker.stopProcessContainers).toHaveBeenCalledWith('deployment-1');
+    expect(mockQuery).toHaveBeenCalledWith(expect.any(String), [
+      DEPLOYMENT_STATUS.CANCELLED,
+      'deployment-1',
+    ]);
+  });
+
+  it('stops process containers even before a main container exists', async () => {
+    deploymentRow(null);
+
+    await DeploymentService.cancelDeployment('deployment-1', 'user-1');
+
+    expect(docker.stopContainer).not.toHaveBeenCalled();
+    expect(docker.stopProcessContainers).toHaveBeenCalledWith('deployment-1');
+  });
+
+  it('still cancels when a container cannot be stopped', async () => {
+    deploymentRow('container-1');
+    docker.stopContainer.mockRejectedValue(new Error('no such container'));
+
+    await expect(
+      DeploymentService.cancelDeployment('deployment-1', 'user-1')
+    ).resolves.toBeUndefined();
+
+    expect(docker.stopProcessContainers).toHaveBeenCalledWith('deployment-1');
+  });
+});
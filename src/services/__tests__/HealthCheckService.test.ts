@@ -0,0 +1,61 @@
+import config from '../../config';
+import { HealthCheckService } from '../HealthCheckService';
+
+// Normalizing never touches Docker; this keeps dockerode and uuid out of the test
+jest.mock('../DockerService', () => ({ DockerService: {} }));
+
+describe('HealthCheckService.normalize', () => {
+  it('fills in defaults for an HTTP probe', () => {
+    expect(HealthCheckService.normalize({})).toEqual({
+      type: 'http',
+      path: '/',
+      intervalSeconds: 2,
+      timeoutSeconds: 5,
+      successThreshold: 1,
+      maxWaitSeconds: config.rollout.readinessTimeoutSeconds,
+    });
+  });
+
+  it('keeps explicit settings', () => {
+    expect(
+      HealthCheckService.normalize({
+        path: '/healthz',
+        expectedStatus: 204,
+        intervalSeconds: 5,
+        timeoutSeconds: 2,
+        successThreshold: 3,
+        maxWaitSeconds: 120,
+      })
+    ).toEqual({
+      type: 'http',
+      path: '/healthz',
+      expectedStatus: 204,
+      intervalSeconds: 5,
+      timeoutSeconds: 2,
+      successThreshold: 3,
+      maxWaitSeconds: 120,
+    });
+  });
+
+  it('drops HTTP-only settings from a TCP probe', () => {
+    const healthCheck = HealthCheckService.normalize({
+      type: 'tcp',
+      path: '/healthz',
+      expectedStatus: 200,
+    });
+
+    expect(healthCheck.type).toBe('tcp');
+    expect(healthCheck).not.toHaveProperty('path');
+    expect(healthCheck).not.toHaveProperty('expectedStatus');
+  });
+
+  it.each([
+    [{ type: 'grpc' as 'http' }, 'Health check type must be "http" or "tcp"'],
+    [{ intervalSeconds: 0 }, 'Health check intervalSeconds must be a positive integer'],
+    [{ timeoutSeconds: 1.5 }, 'Health check timeoutSeconds must be a positive integer'],
+    [{ path: 'healthz' }, 'Health check path must start with "/"'],
+    [{ expectedStatus: 600 }, 'Health check expectedStatus must be a valid HTTP status code'],
+  ])('rejects %j', (input, message) => {
+    expect(() => HealthCheckService.normalize(input)).toThrow(message);
+  });
+});
@@ -0,0 +1,83 @@
+import { ManifestService } from '../ManifestService';
+
+// Validation never touches Docker; this keeps dockerode and uuid out of the test
+jest.mock('../DockerService', () => ({ DockerService: {} }));
+
+describe('ManifestService.validate', () => {
+  it('accepts a complete manifest', () => {
+    const { manifest, errors } = ManifestService.validate({
+      build: { install: 'npm ci', command: 'npm run build', outputDir: 'dist/' },
+      port: 8080,
+      processes: { web: 'node server.js', worker: 'node worker.js' },
+    });
+
+    expect(errors).toEqual([]);
+    expect(manifest).toEqual({
+      build: { install: 'npm ci', command: 'npm run build', outputDir: 'dist' },
+      start: undefined,
+      port: 8080,
+      processes: { web: 'node server.js', worker: 'node worker.js' },
+    });
+  });
+
+  it('rejects anything but an object', () => {
+    expect(ManifestService.validate(['start']).errors).toEqual(['the manifest must be an object']);
+    expect(ManifestService.validate(null).errors).toEqual(['the manifest must be an object']);
+  });
+
+  it('collects every problem instead of stopping at the first', () => {
+    const { errors } = ManifestService.validate({
+      port: 70000,
+      build: 'npm run build',
+      processes: { Worker: 'node worker.js' },
+    });
+
+    expect(errors).toEqual([
+      'build must be an object',
+      'port must be an integer between 1 and 65535',
+      'processes.Worker: process names must be lowercase letters, digits and dashes',
+    ]);
+  });
+
+  it('rejects unknown keys', () => {
+    const { errors } = ManifestService.validate({ start: 'node app.js', ports: 3000 });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('ports');
+  });
+
+  it('keeps outputDir inside the repository', () => {
+    for (const outputDir of ['/etc', '../outside', 'dist/../../x']) {
+      expect(ManifestService.validate({ build: { outputDir } }).errors).toEqual([
+        'build.outputDir must be a relative path inside the repository',
+      ]);
+    }
+  });
+
+  it('does not allow both start and processes.web', () => {
+    const { errors } = ManifestService.validate({
+      start: 'node app.js',
+      processes: { web: 'node server.js' },
+    });
+
+    expect(errors).toEqual(['start and processes.web both set the start command; use one of them']);
+  });
+
+  it('reports an invalid health check', () => {
+    const { errors } = ManifestService.validate({ healthCheck: { type: 'udp' } });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^healthCheck: /);
+  });
+});
+
+describe('ManifestService.workerProcesses', () => {
+  it('returns every process but web', () => {
+    expect(
+      ManifestService.workerProcesses({ processes: { web: 'a', worker: 'b', clock: 'c' } })
+    ).toEqual([
+      ['worker', 'b'],
+      ['clock', 'c'],
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import * as net from 'net';
+import config from '../../config';
+import { query } from '../../database';
+import { ERROR_CODES } from '../../constants';
+import { PortAllocatorService } from '../PortAllocatorService';
+
+jest.mock('../../database', () => ({ query: jest.fn() }));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+/**
+ * Route the allocator's queries: the stale cleanup, the candidate list and the claims
+ * claimed decides per port whether the INSERT wins the race
+ */
+function mockDatabase(candidates: number[], claimed: (port: number) => boolean = () => true) {
+  mockQuery.mockImplementation(async (text: string, params?: unknown[]) => {
+    if (text.includes('generate_series')) {
+      return { rows: candidates.map((port) => ({ port })), rowCount: candidates.length };
+    }
+    if (text.includes('INSERT INTO port_reservations')) {
+      const port = params?.[0] as number;
+      return claimed(port) ? { rows: [{ port }], rowCount: 1 } : { rows: [], rowCount: 0 };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+}
+
+function listen(port: number): Promise<net.Server> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve(server));
+  });
+}
+
+describe('PortAllocatorService.reserve', () => {
+  const originalPorts = { ...config.ports };
+
+  beforeEach(() => {
+    mockQuery.mockReset();
+    config.ports.rangeStart = 41000;
+    config.ports.rangeEnd = 41009;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    Object.assign(config.ports, originalPorts);
+  });
+
+  it('reclaims stale reservations and claims the first free port', async () => {
+    mockDatabase([41000, 41001]);
+
+    await expect(PortAllocatorService.reserve('deployment-1')).resolves.toBe(41000);
+
+    expect(mockQuery.mock.calls[0][0]).toContain('DELETE FROM port_reservations');
+    expect(mockQuery.mock.calls[1][1]).toEqual([41000, 41009]);
+    expect(mockQuery.mock.calls[2][1]).toEqual([41000, 'deployment-1']);
+  });
+
+  it('skips ports another worker claimed first', async () => {
+    mockDatabase([41000, 41001], (port) => port !== 41000);
+
+    await expect(PortAllocatorService.reserve('deployment-1')).resolves.toBe(41001);
+  });
+
+  it('skips ports already bound on the host', async () => {
+    const server = await listen(41002);
+    try {
+      mockDatabase([41002, 41003]);
+
+      await expect(PortAllocatorService.reserve('deployment-1')).resolves.toBe(41003);
+      // The bound port is never claimed in the database
+      expect(mockQuery.mock.calls.filter(([text]) => text.includes('INSERT'))).toHaveLength(1);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('fails when the range is exhausted', async () => {
+    mockDatabase([]);
+
+    await expect(PortAllocatorService.reserve('deployment-1')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.PORT_POOL_EXHAUSTED,
+      message: 'No free host ports left in range 41000-41009',
+    });
+  });
+});
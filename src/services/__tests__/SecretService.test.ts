@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+import config from '../../config';
+import { ERROR_CODES } from '../../constants';
+import { SecretService } from '../SecretService';
+
+describe('SecretService', () => {
+  const originalMasterKey = config.secrets.masterKey;
+
+  beforeEach(() => {
+    config.secrets.masterKey = crypto.randomBytes(32).toString('base64');
+  });
+
+  afterAll(() => {
+    config.secrets.masterKey = originalMasterKey;
+  });
+
+  it('decrypts what it encrypted', () => {
+    const encrypted = SecretService.encrypt('postgres://user:pass@db/app');
+
+    expect(encrypted.ciphertext).not.toContain('postgres');
+    expect(SecretService.decrypt(encrypted)).toBe('postgres://user:pass@db/app');
+  });
+
+  it('uses a fresh data key for every value', () => {
+    const first = SecretService.encrypt('same');
+    const second = SecretService.encrypt('same');
+
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+    expect(first.wrappedKey).not.toBe(second.wrappedKey);
+    expect(first.fingerprint).toBe(second.fingerprint);
+  });
+
+  it('fingerprints different values differently', () => {
+    expect(SecretService.fingerprint('a')).not.toBe(SecretService.fingerprint('b'));
+  });
+
+  it('decrypts a set of secrets', () => {
+    const secrets = { A: SecretService.encrypt('1'), B: SecretService.encrypt('2') };
+
+    expect(SecretService.decryptSecrets(secrets)).toEqual({ A: '1', B: '2' });
+  });
+
+  it('refuses secrets encrypted under another master key', () => {
+    const encrypted = SecretService.encrypt('value');
+    config.secrets.masterKey = crypto.randomBytes(32).toString('base64');
+
+    expect(() => SecretService.decrypt(encrypted)).toThrow(/different master key/);
+  });
+
+  it('detects tampered ciphertext', () => {
+    const encrypted = SecretService.encrypt('value');
+    const data = Buffer.from(encrypted.ciphertext, 'base64');
+    data[data.length - 1] ^= 1;
+
+    expect(() =>
+      SecretService.decrypt({ ...encrypted, ciphertext: data.toString('base64') })
+    ).toThrow();
+  });
+
+  it('requires a 32-byte master key', () => {
+    config.secrets.masterKey = crypto.randomBytes(16).toString('base64');
+
+    expect(() => SecretService.encrypt('value')).toThrow(
+      expect.objectContaining({ errorCode: ERROR_CODES.SECRETS_NOT_CONFIGURED })
+    );
+  });
+
+  describe('validateSecrets', () => {
+    it('accepts strings and null deletions', () => {
+      expect(() => SecretService.validateSecrets({ API_KEY: 'x', OLD_KEY: null })).not.toThrow();
+    });
+
+    it('rejects non-objects, invalid names and non-string values', () => {
+      expect(() => SecretService.validateSecrets(['x'])).toThrow('must be an object');
+      expect(() => SecretService.validateSecrets({ 'BAD-NAME': 'x' })).toThrow(
+        'Invalid variable name "BAD-NAME"'
+      );
+      expect(() => SecretService.validateSecrets({ PORT: 3000 })).toThrow(
+        'Secret PORT must be a string'
+      );
+    });
+
+    it('does not need a master key to only delete secrets', () => {
+      config.secrets.masterKey = '';
+
+      expect(() => SecretService.validateSecrets({ OLD_KEY: null })).not.toThrow();
+      expect(() => SecretService.validateSecrets({ NEW_KEY: 'x' })).toThrow(
+        'SECRETS_MASTER_KEY must be set'
+      );
+    });
+  });
+});
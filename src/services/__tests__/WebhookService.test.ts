@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+import { WebhookService } from '../WebhookService';
+
+// Signature checks touch none of these; mocking them keeps dockerode and uuid out of the test
+jest.mock('uuid', () => ({ v4: jest.fn() }));
+jest.mock('../../database', () => ({ query: jest.fn() }));
+jest.mock('../PreviewService', () => ({ PreviewService: {} }));
+jest.mock('../ProjectService', () => ({ ProjectService: {} }));
+
+const sign = (payload: string, secret: string): string =>
+  'sha256=' + crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+describe('WebhookService.verifySignature', () => {
+  const payload = JSON.stringify({ ref: 'refs/heads/main' });
+
+  it('accepts the signature GitHub computes with the project secret', () => {
+    expect(WebhookService.verifySignature(payload, sign(payload, 'secret'), 'secret')).toBe(true);
+  });
+
+  it('rejects a well-formed signature made with another secret', () => {
+    expect(WebhookService.verifySignature(payload, sign(payload, 'other'), 'secret')).toBe(false);
+  });
+
+  it('rejects a signature for a different payload', () => {
+    expect(WebhookService.verifySignature(payload, sign('{}', 'secret'), 'secret')).toBe(false);
+  });
+
+  it('rejects a signature of the wrong length without throwing', () => {
+    expect(WebhookService.verifySignature(payload, 'sha256=abc', 'secret')).toBe(false);
+  });
+});
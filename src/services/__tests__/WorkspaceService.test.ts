@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import config from '../../config';
+import { GitService } from '../GitService';
+import { WorkspaceService } from '../WorkspaceService';
+
+jest.mock('../GitService', () => ({
+  GitService: { fetch: jest.fn(), addWorktree: jest.fn() },
+}));
+
+const git = jest.mocked(GitService);
+
+describe('WorkspaceService.checkout', () => {
+  const projectId = 'project-1';
+  const originalDir = config.builds.workspaceDir;
+  let repoDir: string;
+
+  beforeEach(() => {
+    config.builds.workspaceDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gilgal-workspace-'));
+    repoDir = WorkspaceService.repositoryPath(projectId);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    // Stands in for git: the fetch creates the bare repository when it is missing
+    git.fetch.mockImplementation(async (_url, dir) => {
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(path.join(dir, 'HEAD'), 'ref: refs/heads/main\n');
+      return { sha: 'abc123', message: 'Initial commit', author: 'Dev' };
+    });
+    git.addWorktree.mockResolvedValue();
+  });
+
+  afterEach(() => {
+    fs.rmSync(config.builds.workspaceDir, { recursive: true, force: true });
+    config.builds.workspaceDir = originalDir;
+    jest.restoreAllMocks();
+  });
+
+  it('reuses a workspace of the same cache generation', async () => {
+    await WorkspaceService.checkout(projectId, 'https://example.com/a.git', '/tmp/x', 'main');
+    fs.writeFileSync(path.join(repoDir, 'objects'), 'packed');
+
+    const second = await WorkspaceService.checkout(
+      projectId,
+      'https://example.com/a.git',
+      '/tmp/x',
+      'main'
+    );
+
+    expect(second.cacheHit).toBe(true);
+    expect(fs.existsSync(path.join(repoDir, 'objects'))).toBe(true);
+    expect(second.sizeBytes).toBeGreaterThan(0);
+  });
+
+  it('deletes a workspace left from before the cache was cleared', async () => {
+    await WorkspaceService.checkout(projectId, 'https://example.com/a.git', '/tmp/x', 'main');
+    fs.writeFileSync(path.join(repoDir, 'objects'), 'packed');
+
+    const result = await WorkspaceService.checkout(
+      projectId,
+      'https://example.com/a.git',
+      '/tmp/x',
+      'main',
+      undefined,
+      1
+    );
+
+    expect(result.cacheHit).toBe(false);
+    expect(fs.existsSync(path.join(repoDir, 'objects'))).toBe(false);
+
+    const again = await WorkspaceService.checkout(
+      projectId,
+      'https://example.com/a.git',
+      '/tmp/x',
+      'main',
+      undefined,
+      1
+    );
+    expect(again.cacheHit).toBe(true);
+  });
+});
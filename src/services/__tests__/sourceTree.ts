@@ -0,0 +1,28 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const created: string[] = [];
+
+/**
+ * Write a throwaway source tree (relative path -> contents) and return its directory
+ * Objects are written as JSON; removeSourceTrees() deletes everything created
+ */
+export function createSourceTree(files: Record<string, string | object>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gilgal-test-'));
+  created.push(dir);
+  for (const [name, contents] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, name),
+      typeof contents === 'string' ? contents : JSON.stringify(contents)
+    );
+  }
+  return dir;
+}
+
+export function removeSourceTrees(): void {
+  for (const dir of created.splice(0)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -72,6 +72,38 @@ export interface Project {
   updatedAt: Date;
 }
 
+/**
+ * Whether a project has an SSH deploy key and which credential its builds use
+ * The key itself is write-only
+ */
+export interface DeployKeyStatus {
+  configured: boolean;
+  updatedAt?: Date;
+  buildCredential: 'deploy-key' | 'github-token' | 'none';
+}
+
+/**
+ * A project's build cache: its git workspace on the build host and how often recent builds
+ * reused cached work
+ */
+export interface BuildCacheStats {
+  // Bumped each time the cache is cleared
+  generation: number;
+  clearedAt?: Date;
+  workspace: {
+    present: boolean;
+    sizeBytes: number;
+  };
+  recentBuilds: {
+    count: number;
+    workspaceHits: number;
+    layersCached: number;
+    layersTotal: number;
+    // layersCached / layersTotal, null before any build step has run
+    layerHitRate: number | null;
+  };
+}
+
 export interface CreateProjectRequest {
   name: string;
   description?: string;
@@ -87,18 +119,215 @@ export interface Environment {
   id: string;
   projectId: string;
   name: string;
-  type: 'production' | 'staging' | 'development';
+  // preview environments are created and removed by pull request webhooks
+  type: 'production' | 'staging' | 'development' | 'preview';
   domain?: string;
+  domainStatus?: 'pending' | 'verified' | 'failed';
+  domainVerificationToken?: string;
+  domainVerifiedAt?: Date;
+  // Branches whose pushes deploy here, e.g. ["main"] or ["release/*"]
+  branchPatterns?: string[];
   environmentVariables: Record<string, string>;
+  // Secret names with masked values; the values themselves are write-only
+  secrets?: Record<string, string>;
+  healthCheck?: HealthCheckConfig;
   createdAt: Date;
   updatedAt: Date;
 }
 
 export interface CreateEnvironmentRequest {
   name: string;
-  type: 'production' | 'staging' | 'development';
+  type: 'production' | 'staging' | 'development' | 'preview';
   domain?: string;
+  branchPatterns?: string[];
   environmentVariables?: Record<string, string>;
+  // Secret values to store (null deletes a secret)
+  secrets?: Record<string, string | null>;
+  healthCheck?: Partial<HealthCheckConfig> | null;
+}
+
+/**
+ * A saved state of an environment's variables and secrets
+ * Secret values are always masked
+ */
+export interface EnvironmentVariableRevision {
+  id: string;
+  environmentId: string;
+  revision: number;
+  variables: Record<string, string>;
+  // Merged values of the attached variable groups
+  groupVariables: Record<string, string>;
+  secrets: Record<string, string>;
+  createdBy?: string;
+  createdByEmail?: string;
+  restoredFrom?: number;
+  createdAt: Date;
+}
+
+export interface VariableChange {
+  key: string;
+  secret: boolean;
+  oldValue?: string;
+  newValue?: string;
+}
+
+/**
+ * Changes between two revisions; `from` is null when diffing the first revision
+ */
+export interface EnvironmentVariableDiff {
+  from: number | null;
+  to: number;
+  added: VariableChange[];
+  removed: VariableChange[];
+  changed: VariableChange[];
+}
+
+/**
+ * User-owned set of variables that can be attached to many environments
+ */
+export interface VariableGroup {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  variables: Record<string, string>;
+  environmentCount?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateVariableGroupRequest {
+  name: string;
+  description?: string;
+  variables?: Record<string, string>;
+}
+
+/**
+ * Where an effective variable's value comes from
+ */
+export interface VariableSource {
+  source: 'group' | 'environment' | 'secret';
+  groupId?: string;
+  groupName?: string;
+}
+
+/**
+ * A variable as a deployment would see it; `overridden` lists the sources it shadows
+ */
+export interface EffectiveVariable extends VariableSource {
+  key: string;
+  value: string;
+  overridden: VariableSource[];
+}
+
+/**
+ * A received push or pull request webhook and what it did: which deployments it created, or why it
+ * was ignored
+ */
+export interface WebhookDelivery {
+  id: string;
+  projectId: string;
+  event: string;
+  ref?: string;
+  commitSha?: string;
+  status: 'deployed' | 'ignored' | 'removed' | 'failed';
+  reason?: string;
+  deploymentIds: string[];
+  createdAt: Date;
+}
+
+/**
+ * Temporary environment deployed for an open pull request
+ * `comment` is ready to post on the pull request as-is
+ */
+export interface PreviewEnvironment {
+  id: string;
+  projectId: string;
+  environmentId: string;
+  pullRequestNumber: number;
+  title?: string;
+  pullRequestUrl?: string;
+  headRef: string;
+  headSha?: string;
+  author?: string;
+  status: 'open' | 'closed';
+  url: string;
+  latestDeployment?: {
+    id: string;
+    status: string;
+    commitSha?: string;
+    errorMessage?: string;
+  };
+  comment: string;
+  createdAt: Date;
+  updatedAt: Date;
+  closedAt?: Date;
+}
+
+/**
+ * Custom domain ownership status and the DNS records that prove it
+ * Either record is enough to verify the domain
+ */
+export interface DomainVerification {
+  domain: string;
+  status: 'pending' | 'verified' | 'failed';
+  verifiedAt?: Date;
+  lastCheckedAt?: Date;
+  lastError?: string;
+  records: {
+    txt: { name: string; value: string };
+    cname: { name: string; value: string };
+  };
+  certificate?: Certificate;
+}
+
+/**
+ * TLS certificate issued over ACME for a verified custom domain
+ */
+export interface Certificate {
+  id: string;
+  domain: string;
+  status: 'pending' | 'issued' | 'failed'; // issued stays set while a renewal is retried
+  certPath?: string;
+  keyPath?: string;
+  issuedAt?: Date;
+  expiresAt?: Date;
+  attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Readiness probe that must pass before a deployment is marked successful
+ */
+export interface HealthCheckConfig {
+  type: 'http' | 'tcp';
+  path?: string; // http only
+  expectedStatus?: number; // http only; any 2xx/3xx when omitted
+  intervalSeconds: number;
+  timeoutSeconds: number; // per probe attempt
+  successThreshold: number; // consecutive passing probes required
+  maxWaitSeconds: number; // overall deadline before the deployment fails
+}
+
+/**
+ * Checked-in build and runtime settings (gilgal.json, gilgal.yaml or gilgal.yml at the
+ * repository root). Anything left out is inferred by the build strategy
+ */
+export interface AppManifest {
+  build?: {
+    install?: string;
+    command?: string;
+    // Directory the build writes static files to (static sites)
+    outputDir?: string;
+  };
+  start?: string;
+  port?: number;
+  healthCheck?: HealthCheckConfig;
+  // Extra commands run as their own containers from the same image, e.g. { worker: "..." }
+  processes?: Record<string, string>;
 }
 
 /**
@@ -108,29 +337,109 @@ export interface Deployment {
   id: string;
   projectId: string;
   environmentId: string;
+  // Branch, tag or SHA requested for the build; commitSha is the commit it resolved to
+  ref?: string;
   commitSha?: string;
   commitMessage?: string;
-  status: 'pending' | 'building' | 'success' | 'failed';
+  commitAuthor?: string;
+  status: 'pending' | 'building' | 'success' | 'failed' | 'cancelled';
   durationSeconds?: number;
   deployedAt?: Date;
   containerId?: string;
+  imageName?: string;
+  framework?: string;
+  // Build strategy the image was built with (e.g. dockerfile, next, static-site, node)
+  buildStrategy?: string;
+  appPort?: number;
+  // Parsed repository manifest the image was built with, if the repository has one
+  manifest?: AppManifest;
+  buildCache?: DeploymentBuildCache;
+  sourceDeploymentId?: string;
+  // Environment variables revision the container was started with
+  variablesRevision?: number;
   errorMessage?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * How much cached work a build reused
+ */
+export interface DeploymentBuildCache {
+  // The commit was fetched into the project's existing workspace rather than cloned
+  workspaceHit: boolean;
+  // Size of the workspace on the build host after the fetch; absent when nothing was fetched
+  workspaceSizeBytes?: number;
+  // Dockerfile steps served from the layer cache, out of all steps that ran
+  layersCached: number;
+  layersTotal: number;
+  generation: number;
+  // The first build after the cache was cleared rebuilds every layer
+  noCache: boolean;
+}
+
 export interface CreateDeploymentRequest {
   environmentId: string;
+  ref?: string;
   commitSha?: string;
   commitMessage?: string;
 }
 
+/**
+ * Reverse proxy route for an environment's live deployment
+ * Row shape returned by /api/deployments/active and consumed by the proxy providers
+ */
+export interface ProxyRoute {
+  slug: string;
+  port: number;
+  project_id: string;
+  environment_id: string;
+  environment_name: string;
+  environment_type: string;
+  domain: string | null; // verified custom domain
+  certificate_path: string | null; // ACME certificate for the custom domain, once issued
+  certificate_key_path: string | null;
+  hostname: string;
+}
+
+/**
+ * A generated nginx config that was applied (or rejected during validation/reload)
+ */
+export interface NginxConfigVersion {
+  id: string;
+  checksum: string; // sha256 of content
+  content?: string; // omitted from listings
+  status: 'applied' | 'failed';
+  error?: string;
+  createdAt: Date;
+}
+
+/**
+ * Deployment Job (queue) related types
+ */
+export interface DeploymentJob {
+  id: string;
+  deploymentId: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  attempts: number;
+  maxAttempts: number;
+  runAfter: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  lastHeartbeatAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Deployment Log related types
  */
 export interface DeploymentLog {
   id: string;
   deploymentId: string;
+  seq: number;
+  source: 'pipeline' | 'build';
   logLevel: 'info' | 'warning' | 'error' | 'debug';
   message: string;
   timestamp: Date;
@@ -0,0 +1,56 @@
+import { branchFromRef, isValidBranchPattern, matchesBranchPattern } from '../branch';
+
+describe('matchesBranchPattern', () => {
+  it('matches exact branch names', () => {
+    expect(matchesBranchPattern('main', 'main')).toBe(true);
+    expect(matchesBranchPattern('main', 'main2')).toBe(false);
+  });
+
+  it('matches * within a single path segment', () => {
+    expect(matchesBranchPattern('release/*', 'release/1.2')).toBe(true);
+    expect(matchesBranchPattern('release/*', 'release/1.2/hotfix')).toBe(false);
+    expect(matchesBranchPattern('release/*', 'release')).toBe(false);
+  });
+
+  it('matches ** across segments', () => {
+    expect(matchesBranchPattern('feature/**', 'feature/a/b/c')).toBe(true);
+    expect(matchesBranchPattern('**/fix', 'team/x/fix')).toBe(true);
+  });
+
+  it('matches ? as one character other than a slash', () => {
+    expect(matchesBranchPattern('v?', 'v1')).toBe(true);
+    expect(matchesBranchPattern('v?', 'v12')).toBe(false);
+    expect(matchesBranchPattern('a?b', 'a/b')).toBe(false);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(matchesBranchPattern('v1.0', 'v1.0')).toBe(true);
+    expect(matchesBranchPattern('v1.0', 'v1x0')).toBe(false);
+    expect(matchesBranchPattern('c++', 'c++')).toBe(true);
+  });
+});
+
+describe('isValidBranchPattern', () => {
+  it('accepts branch characters and wildcards', () => {
+    expect(isValidBranchPattern('release/*')).toBe(true);
+    expect(isValidBranchPattern('feature/**')).toBe(true);
+  });
+
+  it('rejects empty, overlong and unsupported patterns', () => {
+    expect(isValidBranchPattern('')).toBe(false);
+    expect(isValidBranchPattern('a'.repeat(256))).toBe(false);
+    expect(isValidBranchPattern('feat ure')).toBe(false);
+    expect(isValidBranchPattern('[ab]')).toBe(false);
+  });
+});
+
+describe('branchFromRef', () => {
+  it('returns the branch of a heads ref', () => {
+    expect(branchFromRef('refs/heads/feature/x')).toBe('feature/x');
+  });
+
+  it('returns null for tags and other refs', () => {
+    expect(branchFromRef('refs/tags/v1.0')).toBeNull();
+    expect(branchFromRef('refs/pull/1/head')).toBeNull();
+  });
+});
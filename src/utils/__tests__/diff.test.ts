@@ -0,0 +1,61 @@
+import { createUnifiedDiff } from '../diff';
+
+const numbered = (count: number): string[] =>
+  Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+
+describe('createUnifiedDiff', () => {
+  it('returns an empty string for identical texts', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n', 'v1', 'v2')).toBe('');
+  });
+
+  it('shows a change with three lines of context', () => {
+    const oldLines = numbered(10);
+    const newLines = [...oldLines];
+    newLines[4] = 'changed';
+
+    expect(createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'v1', 'v2')).toBe(
+      [
+        '--- v1',
+        '+++ v2',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+changed',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('merges changes whose context overlaps into one hunk', () => {
+    const oldLines = numbered(20);
+    const near = [...oldLines];
+    near[1] = 'x';
+    near[8] = 'y';
+    const far = [...oldLines];
+    far[1] = 'x';
+    far[9] = 'y';
+
+    const hunks = (newLines: string[]): number =>
+      createUnifiedDiff(oldLines.join('\n'), newLines.join('\n'), 'v1', 'v2')
+        .split('\n')
+        .filter((line) => line.startsWith('@@')).length;
+
+    expect(hunks(near)).toBe(1);
+    expect(hunks(far)).toBe(2);
+  });
+
+  it('numbers hunks against an empty file from zero', () => {
+    expect(createUnifiedDiff('', 'a\nb\n', 'v1', 'v2')).toBe(
+      '--- v1\n+++ v2\n@@ -0,0 +1,2 @@\n+a\n+b\n'
+    );
+  });
+
+  it('treats a trailing newline as ending the last line', () => {
+    expect(createUnifiedDiff('a\nb', 'a\nb\n', 'v1', 'v2')).toBe('');
+  });
+});
@@ -0,0 +1,102 @@
+import { DotenvParseError, formatDotenv, formatShellExports, parseDotenv } from '../dotenv';
+
+describe('parseDotenv', () => {
+  it('parses plain assignments, comments and export prefixes', () => {
+    const text = [
+      '# database',
+      'DB_HOST=localhost',
+      '',
+      'export DB_PORT = 5432',
+      'LOG_LEVEL=info # inline comment',
+      'URL=https://example.com/#anchor',
+    ].join('\n');
+
+    expect(parseDotenv(text)).toEqual({
+      DB_HOST: 'localhost',
+      DB_PORT: '5432',
+      LOG_LEVEL: 'info',
+      URL: 'https://example.com/#anchor',
+    });
+  });
+
+  it('unescapes double quotes and keeps single quotes literal', () => {
+    const text = ['GREETING="hello\\nworld \\"quoted\\" \\$HOME"', "RAW='a\\nb $HOME'"].join('\n');
+
+    expect(parseDotenv(text)).toEqual({
+      GREETING: 'hello\nworld "quoted" $HOME',
+      RAW: 'a\\nb $HOME',
+    });
+  });
+
+  it('reads quoted values across lines', () => {
+    const text = 'KEY="-----BEGIN-----\nabc\n-----END-----"\nNEXT=1\n';
+
+    expect(parseDotenv(text)).toEqual({ KEY: '-----BEGIN-----\nabc\n-----END-----', NEXT: '1' });
+  });
+
+  it('handles CRLF line endings and a BOM', () => {
+    expect(parseDotenv('\uFEFFA=1\r\nB=2\r\n')).toEqual({ A: '1', B: '2' });
+  });
+
+  it('lets later assignments win', () => {
+    expect(parseDotenv('A=1\nA=2')).toEqual({ A: '2' });
+  });
+
+  it('reports the line of a missing equals sign', () => {
+    expect(() => parseDotenv('A=1\n\nnot a variable')).toThrow(
+      new DotenvParseError(3, 'expected KEY=VALUE')
+    );
+  });
+
+  it('rejects invalid names, unterminated quotes and trailing characters', () => {
+    expect(() => parseDotenv('1ABC=x')).toThrow('invalid variable name "1ABC"');
+    expect(() => parseDotenv('A="open\nB=2')).toThrow('unterminated " quote for A');
+    expect(() => parseDotenv('A="x" y')).toThrow('unexpected characters after quoted value');
+  });
+});
+
+describe('formatDotenv', () => {
+  it('round-trips values through parseDotenv', () => {
+    const variables = {
+      PLAIN: 'value',
+      QUOTES: 'say "hi"',
+      MULTILINE: 'line 1\nline 2\r\n',
+      DOLLAR: '$HOME\\path',
+    };
+
+    expect(parseDotenv(formatDotenv(variables))).toEqual(variables);
+  });
+
+  it('writes non-string values as strings', () => {
+    const variables = { PORT: 3000, DEBUG: true } as unknown as Record<string, string>;
+
+    expect(formatDotenv(variables)).toBe('PORT="3000"\nDEBUG="true"\n');
+  });
+
+  it('keeps the header on comment lines', () => {
+    const output = formatDotenv({ A: '1' }, ['Environment: prod\nA=injected']);
+
+    expect(output).toBe('# Environment: prod A=injected\nA="1"\n');
+    expect(parseDotenv(output)).toEqual({ A: '1' });
+  });
+});
+
+describe('formatShellExports', () => {
+  it('single-quotes values and escapes embedded quotes', () => {
+    expect(formatShellExports({ A: "it's $HOME" })).toBe("export A='it'\\''s $HOME'\n");
+  });
+
+  it('lists names that are not shell identifiers instead of exporting them', () => {
+    const variables = { GOOD: '1', 'BAD-NAME': '2' };
+
+    expect(formatShellExports(variables)).toBe(
+      "# Not valid shell names: BAD-NAME\nexport GOOD='1'\n"
+    );
+  });
+
+  it('strips line breaks from the header', () => {
+    expect(formatShellExports({}, ['Environment: x\nrm -rf /'])).toBe(
+      '# Environment: x rm -rf /\n'
+    );
+  });
+});
@@ -0,0 +1,19 @@
+import { hasControlChars, replaceControlChars } from '../text';
+
+describe('hasControlChars', () => {
+  it('finds line breaks, escapes and DEL', () => {
+    expect(hasControlChars('npm start\n')).toBe(true);
+    expect(hasControlChars('\u001b[31mred')).toBe(true);
+    expect(hasControlChars('a\u007fb')).toBe(true);
+  });
+
+  it('accepts printable text, including non-ASCII', () => {
+    expect(hasControlChars('node server.js --name "café"')).toBe(false);
+  });
+});
+
+describe('replaceControlChars', () => {
+  it('collapses each run of control characters into one space', () => {
+    expect(replaceControlChars('first\r\nsecond\tthird')).toBe('first second third');
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Branch patterns for mapping pushed branches to environments
+ * `*` matches within one path segment, `**` matches across segments and `?` matches
+ * one character, so `release/*` matches `release/1.2` but not `release/1.2/hotfix`
+ */
+
+const PATTERN_CHARS = /^[A-Za-z0-9._/*?+-]+$/;
+
+export function isValidBranchPattern(pattern: string): boolean {
+  return pattern.length > 0 && pattern.length <= 255 && PATTERN_CHARS.test(pattern);
+}
+
+export function matchesBranchPattern(pattern: string, branch: string): boolean {
+  const source = pattern
+    .split('**')
+    .map((part) =>
+      part
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]')
+    )
+    .join('.*');
+
+  return new RegExp(`^${source}$`).test(branch);
+}
+
+/**
+ * Branch name from a push ref (refs/heads/feature/x -> feature/x); null for tags and other refs
+ */
+export function branchFromRef(ref: string): string | null {
+  return ref.startsWith('refs/heads/') ? ref.slice('refs/heads/'.length) : null;
+}
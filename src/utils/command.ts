@@ -0,0 +1,183 @@
+import { spawn } from 'child_process';
+
+/**
+ * Run external programs (git, docker) without a shell
+ * Arguments are passed as an array so nothing in them is ever interpreted by a shell,
+ * every command has a timeout, and output is captured line by line
+ */
+
+export interface CommandOutputLine {
+  stream: 'stdout' | 'stderr';
+  text: string;
+  at: Date;
+}
+
+export interface CommandOptions {
+  cwd?: string;
+  // Added to the current process environment
+  env?: NodeJS.ProcessEnv;
+  timeoutMs?: number;
+  // Values replaced with *** in output, errors and the logged command line
+  redact?: string[];
+  onOutput?: (line: string, stream: 'stdout' | 'stderr') => void;
+}
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  output: CommandOutputLine[];
+  durationMs: number;
+}
+
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    public command: string,
+    public exitCode: number | null,
+    public timedOut: boolean,
+    public output: CommandOutputLine[]
+  ) {
+    super(message);
+    this.name = 'CommandError';
+  }
+
+  /**
+   * Captured stderr, falling back to stdout when the program wrote nothing to stderr
+   */
+  get detail(): string {
+    const stderr = this.output.filter((line) => line.stream === 'stderr');
+    return (stderr.length > 0 ? stderr : this.output).map((line) => line.text).join('\n');
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+// Only the tail of very chatty commands (e.g. docker build) is kept in the result
+const MAX_CAPTURED_LINES = 1000;
+const ERROR_TAIL_LINES = 20;
+
+export function redact(text: string, secrets: string[] = []): string {
+  return secrets
+    .filter((secret) => secret.length > 0)
+    .reduce((result, secret) => result.split(secret).join('***'), text);
+}
+
+/**
+ * Run a program with an argument array; resolves when it exits 0
+ * Rejects with a CommandError on a non-zero exit, a failure to start or a timeout
+ * (the process is killed when the timeout expires)
+ */
+export function runCommand(
+  command: string,
+  args: string[],
+  options: CommandOptions = {}
+): Promise<CommandResult> {
+  const { cwd, env, timeoutMs = DEFAULT_TIMEOUT_MS, redact: secrets = [], onOutput } = options;
+  const commandLine = redact([command, ...args].join(' '), secrets);
+  const startedAt = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd,
+      env: { ...process.env, ...env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const output: CommandOutputLine[] = [];
+    const streams = { stdout: '', stderr: '' };
+    const partial = { stdout: '', stderr: '' };
+    let timedOut = false;
+    let settled = false;
+
+    const emit = (stream: 'stdout' | 'stderr', raw: string) => {
+      const text = redact(raw, secrets);
+      output.push({ stream, text, at: new Date() });
+      if (output.length > MAX_CAPTURED_LINES) {
+        output.shift();
+      }
+      onOutput?.(text, stream);
+    };
+
+    const handleChunk = (stream: 'stdout' | 'stderr', chunk: Buffer) => {
+      const text = chunk.toString();
+      if (streams[stream].length < 10 * 1024 * 1024) {
+        streams[stream] += text;
+      }
+      const lines = (partial[stream] + text).split(/\r?\n/);
+      partial[stream] = lines.pop() || '';
+      lines.filter((line) => line.length > 0).forEach((line) => emit(stream, line));
+    };
+
+    const finish = (error?: CommandError) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve({
+        stdout: redact(streams.stdout, secrets),
+        stderr: redact(streams.stderr, secrets),
+        output,
+        durationMs: Date.now() - startedAt,
+      });
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, timeoutMs);
+
+    child.stdout.on('data', (chunk: Buffer) => handleChunk('stdout', chunk));
+    child.stderr.on('data', (chunk: Buffer) => handleChunk('stderr', chunk));
+
+    child.on('error', (error) =>
+      finish(
+        new CommandError(
+          `${commandLine} could not start: ${redact(error.message, secrets)}`,
+          commandLine,
+          null,
+          false,
+          output
+        )
+      )
+    );
+
+    child.on('close', (code, signal) => {
+      (['stdout', 'stderr'] as const)
+        .filter((stream) => partial[stream].length > 0)
+        .forEach((stream) => emit(stream, partial[stream]));
+
+      if (timedOut) {
+        finish(
+          new CommandError(
+            `${commandLine} timed out after ${timeoutMs / 1000}s`,
+            commandLine,
+            code,
+            true,
+            output
+          )
+        );
+      } else if (code !== 0) {
+        const tail = output
+          .slice(-ERROR_TAIL_LINES)
+          .map((line) => line.text)
+          .join('\n');
+        finish(
+          new CommandError(
+            `${commandLine} exited with ${code === null ? `signal ${signal}` : `code ${code}`}` +
+              (tail ? `\n${tail}` : ''),
+            commandLine,
+            code,
+            false,
+            output
+          )
+        );
+      } else {
+        finish();
+      }
+    });
+  });
+}
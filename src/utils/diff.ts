@@ -0,0 +1,149 @@
+/**
+ * Line-based unified diff, used to compare stored config versions
+ */
+
+interface DiffOp {
+  type: ' ' | '-' | '+';
+  line: string;
+}
+
+/**
+ * Diff two line arrays via LCS, after trimming the common prefix and suffix
+ * (config versions usually differ in a few places, which keeps the table small)
+ */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  // lcs[i][j] = length of the longest common subsequence of midA[i..] and midB[j..]
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] =
+        midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((line) => ({ type: ' ', line }));
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      ops.push({ type: ' ', line: midA[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: '-', line: midA[i++] });
+    } else {
+      ops.push({ type: '+', line: midB[j++] });
+    }
+  }
+  while (i < n) {
+    ops.push({ type: '-', line: midA[i++] });
+  }
+  while (j < m) {
+    ops.push({ type: '+', line: midB[j++] });
+  }
+
+  ops.push(...a.slice(endA).map((line): DiffOp => ({ type: ' ', line })));
+  return ops;
+}
+
+/**
+ * Split text into lines; a trailing newline ends the last line rather than starting a new one
+ */
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Produce a unified diff (as `diff -u` would) between two texts
+ * Returns an empty string when the texts are identical
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context: number = 3
+): string {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  if (ops.every((op) => op.type === ' ')) {
+    return '';
+  }
+
+  // 1-based line numbers in each file at every op
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== '+') oldLine++;
+    if (op.type !== '-') newLine++;
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  let index = 0;
+  while (index < ops.length) {
+    if (ops[index].type === ' ') {
+      index++;
+      continue;
+    }
+
+    // Extend the hunk while the next change is close enough to share context
+    let lastChange = index;
+    let cursor = index + 1;
+    while (cursor < ops.length) {
+      if (ops[cursor].type !== ' ') {
+        lastChange = cursor;
+        cursor++;
+        continue;
+      }
+      let runEnd = cursor;
+      while (runEnd < ops.length && ops[runEnd].type === ' ') {
+        runEnd++;
+      }
+      if (runEnd === ops.length || runEnd - cursor > context * 2) {
+        break;
+      }
+      cursor = runEnd;
+    }
+
+    const hunkStart = Math.max(0, index - context);
+    const hunkEnd = Math.min(ops.length, lastChange + context + 1);
+    const hunk = ops.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+    const oldStart = oldCount > 0 ? oldLineAt[hunkStart] : oldLineAt[hunkStart] - 1;
+    const newStart = newCount > 0 ? newLineAt[hunkStart] : newLineAt[hunkStart] - 1;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    output.push(...hunk.map((op) => `${op.type}${op.line}`));
+
+    index = hunkEnd;
+  }
+
+  return `${output.join('\n')}\n`;
+}
@@ -0,0 +1,177 @@
+import { replaceControlChars } from './text';
+
+/**
+ * Parse and format dotenv files for bulk variable import/export
+ */
+
+export class DotenvParseError extends Error {
+  constructor(
+    public line: number,
+    message: string
+  ) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'DotenvParseError';
+  }
+}
+
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  '"': '"',
+  '\\': '\\',
+  $: '$',
+};
+
+/**
+ * Parse dotenv text into variables
+ * - `#` starts a comment on its own line, or in an unquoted value at its start or after whitespace
+ * - an optional `export ` prefix is ignored
+ * - double quotes support \n, \r, \t, \", \\ and \$ escapes; single quotes and backticks
+ *   are literal; all quoted values may span multiple lines
+ * - later assignments of the same key win
+ */
+export function parseDotenv(text: string): Record<string, string> {
+  const source = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const variables: Record<string, string> = {};
+
+  let pos = 0;
+  let line = 1;
+
+  const lineEndFrom = (from: number): number => {
+    const end = source.indexOf('\n', from);
+    return end === -1 ? source.length : end;
+  };
+
+  while (pos < source.length) {
+    // Leading whitespace, blank lines and comment lines
+    while (pos < source.length && (source[pos] === ' ' || source[pos] === '\t')) pos++;
+    if (source[pos] === '\n') {
+      pos++;
+      line++;
+      continue;
+    }
+    if (source[pos] === '#') {
+      pos = lineEndFrom(pos);
+      continue;
+    }
+    if (pos >= source.length) {
+      break;
+    }
+
+    const startLine = line;
+    const lineEnd = lineEndFrom(pos);
+    const equals = source.indexOf('=', pos);
+    if (equals === -1 || equals > lineEnd) {
+      throw new DotenvParseError(startLine, 'expected KEY=VALUE');
+    }
+
+    const key = source
+      .slice(pos, equals)
+      .trim()
+      .replace(/^export\s+/, '');
+    if (!KEY_PATTERN.test(key)) {
+      throw new DotenvParseError(startLine, `invalid variable name "${key}"`);
+    }
+
+    pos = equals + 1;
+    while (pos < source.length && (source[pos] === ' ' || source[pos] === '\t')) pos++;
+
+    const quote = source[pos];
+    let value: string;
+
+    if (quote === '"' || quote === "'" || quote === '`') {
+      pos++;
+      value = '';
+      let closed = false;
+      while (pos < source.length) {
+        const char = source[pos];
+        if (char === quote) {
+          closed = true;
+          pos++;
+          break;
+        }
+        if (char === '\n') {
+          line++;
+        }
+        if (quote === '"' && char === '\\' && pos + 1 < source.length) {
+          const escaped = DOUBLE_QUOTE_ESCAPES[source[pos + 1]];
+          if (escaped !== undefined) {
+            value += escaped;
+            pos += 2;
+            continue;
+          }
+        }
+        value += char;
+        pos++;
+      }
+      if (!closed) {
+        throw new DotenvParseError(startLine, `unterminated ${quote} quote for ${key}`);
+      }
+
+      // Only whitespace or a comment may follow the closing quote
+      const rest = source.slice(pos, lineEndFrom(pos)).trim();
+      if (rest !== '' && !rest.startsWith('#')) {
+        throw new DotenvParseError(line, `unexpected characters after quoted value of ${key}`);
+      }
+      pos = lineEndFrom(pos);
+    } else {
+      const raw = source.slice(equals + 1, lineEnd);
+      const comment = raw.search(/(^|\s)#/);
+      value = (comment === -1 ? raw : raw.slice(0, comment)).trim();
+      pos = lineEnd;
+    }
+
+    variables[key] = value;
+  }
+
+  return variables;
+}
+
+/**
+ * A `#` comment line; line breaks in the text would end the comment early
+ */
+function commentLine(text: string): string {
+  return `# ${replaceControlChars(text)}`;
+}
+
+/**
+ * Format variables as a dotenv file; values are double-quoted so any value round-trips
+ * Non-string values (e.g. numbers stored through the API) are written as strings
+ */
+export function formatDotenv(variables: Record<string, string>, header: string[] = []): string {
+  const lines = [
+    ...header.map(commentLine),
+    ...Object.entries(variables).map(([key, value]) => {
+      const escaped = String(value)
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\$/g, '\\$')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r');
+      return `${key}="${escaped}"`;
+    }),
+  ];
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Format variables as POSIX shell `export` statements, safe to `source` or `eval`
+ * Names that aren't shell identifiers can't be exported and are listed in a comment instead
+ */
+export function formatShellExports(
+  variables: Record<string, string>,
+  header: string[] = []
+): string {
+  const skipped = Object.keys(variables).filter((key) => !KEY_PATTERN.test(key));
+  const lines = [
+    ...header.map(commentLine),
+    ...(skipped.length > 0 ? [commentLine(`Not valid shell names: ${skipped.join(', ')}`)] : []),
+    ...Object.entries(variables)
+      .filter(([key]) => KEY_PATTERN.test(key))
+      .map(([key, value]) => `export ${key}='${String(value).replace(/'/g, "'\\''")}'`),
+  ];
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
@@ -0,0 +1,18 @@
+/**
+ * Control characters (Unicode category Cc: C0, DEL and C1) in text that ends up in config
+ * files, commands or comments, where a line break or escape would change its meaning
+ */
+
+const CONTROL_CHAR = /\p{Cc}/u;
+const CONTROL_CHAR_RUNS = /\p{Cc}+/gu;
+
+export function hasControlChars(text: string): boolean {
+  return CONTROL_CHAR.test(text);
+}
+
+/**
+ * Replace each run of control characters with a single space
+ */
+export function replaceControlChars(text: string): string {
+  return text.replace(CONTROL_CHAR_RUNS, ' ');
+}
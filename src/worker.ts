@@ -0,0 +1,158 @@
+import os from 'os';
+import config from './config';
+import { runMigrations } from './database/migrations';
+import { closePool } from './database';
+import { DeploymentQueueService } from './services/DeploymentQueueService';
+import { DeploymentService } from './services/DeploymentService';
+import { CertificateService } from './services/CertificateService';
+import { DeploymentJob } from './types';
+
+/**
+ * Gilgal Deployment Worker
+ * Claims deployment jobs from the Postgres queue and runs the build pipeline
+ * Run as many workers as needed; each holds a lease on the jobs it is building
+ * With ACME enabled, workers also issue and renew custom domain certificates
+ */
+
+const workerId = `${os.hostname()}-${process.pid}`;
+const activeJobs = new Set<Promise<void>>();
+let shuttingDown = false;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function processJob(job: DeploymentJob): Promise<void> {
+  console.log(
+    `[Worker] Claimed job ${job.id} for deployment ${job.deploymentId} (attempt ${job.attempts}/${job.maxAttempts})`
+  );
+
+  // Keep the lease alive while the build runs
+  const heartbeat = setInterval(() => {
+    DeploymentQueueService.heartbeat(job.id, workerId)
+      .then((held) => {
+        if (!held) {
+          console.warn(`[Worker] Lost lease on job ${job.id}`);
+        }
+      })
+      .catch((error) => console.error(`[Worker] Heartbeat failed for job ${job.id}:`, error));
+  }, config.queue.heartbeatIntervalMs);
+
+  try {
+    await DeploymentService.runQueuedDeployment(job.deploymentId);
+    await DeploymentQueueService.complete(job.id, workerId);
+    console.log(`[Worker] Job ${job.id} completed`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const outcome = await DeploymentQueueService.fail(job.id, workerId, errorMessage);
+
+    if (outcome.willRetry) {
+      await DeploymentService.markDeploymentRetrying(
+        job.deploymentId,
+        outcome.attempts,
+        outcome.maxAttempts
+      );
+      console.warn(`[Worker] Job ${job.id} failed, will retry: ${errorMessage}`);
+    } else {
+      console.error(`[Worker] Job ${job.id} failed permanently: ${errorMessage}`);
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * processJob failed to record the job's outcome (e.g. the database was unreachable); hand the
+ * job back so it is picked up again rather than left RUNNING until its lease expires
+ */
+async function releaseJob(job: DeploymentJob, error: unknown): Promise<void> {
+  console.error(`[Worker] Failed to settle job ${job.id}, releasing it:`, error);
+  try {
+    if (!(await DeploymentQueueService.release(job.id, workerId))) {
+      console.warn(`[Worker] Job ${job.id} was not requeued: no attempts left or lease lost`);
+    }
+  } catch (releaseError) {
+    console.error(`[Worker] Failed to release job ${job.id}:`, releaseError);
+  }
+}
+
+/**
+ * Run a claimed job to completion; never rejects, so a job can't take the worker down
+ */
+export function runJob(job: DeploymentJob): Promise<void> {
+  return processJob(job).catch((error) => releaseJob(job, error));
+}
+
+async function pollLoop(): Promise<void> {
+  while (!shuttingDown) {
+    try {
+      await DeploymentQueueService.recoverExpiredLeases();
+
+      while (!shuttingDown && activeJobs.size < config.queue.concurrency) {
+        const job = await DeploymentQueueService.claimNext(workerId);
+        if (!job) {
+          break;
+        }
+
+        const running: Promise<void> = runJob(job).finally(() => activeJobs.delete(running));
+        activeJobs.add(running);
+      }
+    } catch (error) {
+      console.error('[Worker] Poll failed:', error);
+    }
+
+    await sleep(config.queue.pollIntervalMs);
+  }
+}
+
+async function certificateLoop(): Promise<void> {
+  while (!shuttingDown) {
+    try {
+      await CertificateService.processDueCertificates();
+    } catch (error) {
+      console.error('[Worker] Certificate check failed:', error);
+    }
+
+    await sleep(config.acme.checkIntervalMs);
+  }
+}
+
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+
+  console.log(`[Worker] ${signal} received, waiting for ${activeJobs.size} active job(s)...`);
+  await Promise.allSettled(activeJobs);
+  await closePool();
+  console.log('[Worker] Worker stopped');
+  process.exit(0);
+}
+
+async function bootstrap(): Promise<void> {
+  try {
+    console.log(`[Worker] Starting worker ${workerId} in ${config.nodeEnv} environment`);
+
+    console.log('[Database] Running migrations...');
+    await runMigrations();
+    console.log('[Database] Migrations completed');
+
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    process.on('SIGINT', () => shutdown('SIGINT'));
+
+    if (config.acme.enabled) {
+      certificateLoop();
+    }
+
+    await pollLoop();
+  } catch (error) {
+    console.error('[Worker] Fatal error during startup:', error);
+    process.exit(1);
+  }
+}
+
+// Start the worker if this file is executed directly
+if (require.main === module) {
+  bootstrap();
+}